@@ -0,0 +1,170 @@
+// src/app/api/simulate/route.ts
+//
+// POST /api/simulate: runs the viewer's pipeline engine on a program and
+// returns the whole run as JSON. The body gives the program either as hex
+// instruction words or as assembly source, plus an optional pipeline
+// configuration and initial machine state:
+//
+//   {
+//     "instructions": ["8c080000", "01094020"],  // or "source": "lw $t0, 0($zero)\n..."
+//     "config": { "forwardingEnabled": false },  // Omitted fields keep the defaults
+//     "registers": [0, 0, ...],                  // 32 values
+//     "memory": { "0x10010000": 42 }             // Address -> byte
+//   }
+
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { assemble, formatAssemblyErrors } from '@/lib/mips/assembler';
+import {
+  BRANCH_PREDICTORS,
+  type BranchPredictorKind,
+} from '@/lib/mips/branch-predictor';
+import {
+  ALL_FORWARDING_PATHS,
+  type ForwardingPath,
+} from '@/lib/mips/forwarding';
+import { createMachineState, type Memory } from '@/lib/mips/machine';
+import {
+  simulatePipeline,
+  DEFAULT_PIPELINE_CONFIG,
+  STAGE_NAMES,
+} from '@/lib/mips/pipeline';
+
+const HEX_REGEX = /^[0-9a-fA-F]{8}$/; // Same check as the viewer
+const ADDRESS_REGEX = /^(?:\d+|0[xX][0-9a-fA-F]+)$/;
+
+const configSchema = z
+  .object({
+    stallsEnabled: z.boolean(),
+    forwardingEnabled: z.boolean(),
+    forwardingPaths: z.array(
+      z.enum(ALL_FORWARDING_PATHS as [ForwardingPath, ...ForwardingPath[]])
+    ),
+    splitCycleRegisterFile: z.boolean(),
+    branchResolutionStage: z.enum(['ID', 'EX']),
+    branchPredictor: z.enum(
+      BRANCH_PREDICTORS.map(({ kind }) => kind) as [
+        BranchPredictorKind,
+        ...BranchPredictorKind[]
+      ]
+    ),
+    delaySlotEnabled: z.boolean(),
+    outOfOrderEnabled: z.boolean(),
+  })
+  .strict()
+  .partial();
+
+const requestSchema = z
+  .object({
+    instructions: z
+      .array(
+        z
+          .string()
+          .trim()
+          .regex(HEX_REGEX, 'Each instruction must be 8 hexadecimal characters')
+      )
+      .optional(),
+    source: z.string().optional(),
+    config: configSchema.optional(),
+    // Signed or unsigned 32-bit values, stored as signed
+    registers: z
+      .array(
+        z
+          .number()
+          .int()
+          .min(-0x80000000)
+          .max(0xffffffff)
+          .transform((value) => value | 0)
+      )
+      .length(32)
+      .optional(),
+    // JSON keys are strings: decimal or 0x-prefixed byte addresses
+    memory: z
+      .record(
+        z
+          .string()
+          .regex(ADDRESS_REGEX, 'Memory addresses must be decimal or 0x hex')
+          .refine(
+            (address) => Number(address) <= 0xffffffff,
+            'Memory addresses must be at most 0xffffffff'
+          ),
+        z.number().int().min(0).max(255)
+      )
+      .optional(),
+  })
+  .refine(
+    ({ instructions, source }) =>
+      (instructions === undefined) !== (source === undefined),
+    'Give either "instructions" or "source"'
+  );
+
+const badRequest = (error: string, details?: unknown) =>
+  NextResponse.json({ error, details }, { status: 400 });
+
+export async function POST(request: Request) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return badRequest('Request body must be JSON');
+  }
+
+  const parsed = requestSchema.safeParse(body);
+  if (!parsed.success) {
+    return badRequest('Invalid request', parsed.error.flatten());
+  }
+  const { instructions, source, config, registers, memory } = parsed.data;
+
+  // Assemble the source the same way the viewer's input box does
+  let program = instructions;
+  let data: number[] | undefined;
+  let labels: Record<string, number> = {};
+  if (source !== undefined) {
+    const { errors, ...assembled } = assemble(source);
+    if (errors.length > 0) {
+      return badRequest(formatAssemblyErrors(errors), errors);
+    }
+    program = assembled.instructions;
+    data = assembled.data;
+    labels = assembled.labels;
+  }
+  if (!program || program.length === 0) {
+    return badRequest('The program has no instructions');
+  }
+
+  const initialMemory: Memory = {};
+  Object.entries(memory ?? {}).forEach(([address, byte]) => {
+    initialMemory[Number(address)] = byte;
+  });
+
+  const simulation = simulatePipeline(
+    program,
+    createMachineState({ data, registers, memory: initialMemory }),
+    { ...DEFAULT_PIPELINE_CONFIG, ...config }
+  );
+  const { trace, ...analysis } = simulation;
+  const finalMachine = trace[trace.length - 1]?.machine;
+
+  return NextResponse.json({
+    ...analysis,
+    labels,
+    stageNames: STAGE_NAMES,
+    // Per-cycle diagram cells and architectural registers; memory is only
+    // reported once, at the end, to keep the response small
+    trace: trace.map(({ cycle, cells, stallCycles, isFinished, machine }) => ({
+      cycle,
+      cells,
+      stallCycles,
+      isFinished,
+      registers: machine.registers,
+      hi: machine.hi,
+      lo: machine.lo,
+    })),
+    finalState: finalMachine && {
+      registers: finalMachine.registers,
+      hi: finalMachine.hi,
+      lo: finalMachine.lo,
+      memory: finalMachine.memory,
+    },
+  });
+}
@@ -3,6 +3,10 @@
 import type * as React from 'react';
 import { InstructionInput } from '@/components/instruction-input';
 import { PipelineVisualization } from '@/components/pipeline-visualization';
+import { DependencyGraph } from '@/components/dependency-graph';
+import { PlaybackControls } from '@/components/playback-controls';
+import { RegisterFile } from '@/components/register-file';
+import { MemoryViewer } from '@/components/memory-viewer';
 import { Separator } from '@/components/ui/separator';
 import {
   useSimulationState,
@@ -56,76 +60,89 @@ export default function Home() {
 
         <Separator className='my-8 w-full max-w-4xl bg-gradient-to-r from-transparent via-gray-300 to-transparent h-px' />
 
-        {/* Conditionally render visualization and cycle info only if instructions exist */}
-        {instructions.length > 0 && (
-          <div className='w-full space-y-6'>
-            <PipelineVisualization />
-            {/* Display cycle info below the visualization */}
-            {maxCycles > 0 && (
-              <div className='text-center'>
-                <div className='inline-flex items-center space-x-4 bg-white/80 backdrop-blur-sm rounded-full px-6 py-3 shadow-lg border border-gray-200'>
-                  <span className='font-montserrat font-semibold text-gray-700'>
-                    Cycle: {currentCycle} / {maxCycles}
-                  </span>
-                  <div
-                    className={`inline-flex items-center space-x-2 px-3 py-1 rounded-full text-sm font-medium font-montserrat ${
-                      isFinished
-                        ? 'bg-green-100 text-green-700 border border-green-200'
-                        : isRunning
-                        ? 'bg-blue-100 text-blue-700 border border-blue-200'
-                        : 'bg-yellow-100 text-yellow-700 border border-yellow-200'
-                    }`}
-                  >
-                    <div
-                      className={`w-2 h-2 rounded-full ${
-                        isFinished
-                          ? 'bg-green-500'
-                          : isRunning
-                          ? 'bg-blue-500 animate-pulse'
-                          : 'bg-yellow-500'
-                      }`}
-                    ></div>
-                    <span>
-                      {isFinished
-                        ? 'Finished'
-                        : isRunning
-                        ? 'Running'
-                        : 'Paused'}
-                    </span>
+        <div className='w-full grid gap-6 xl:grid-cols-[minmax(0,1fr)_360px] items-start'>
+          <div className='min-w-0'>
+            {/* Conditionally render visualization and cycle info only if instructions exist */}
+            {instructions.length > 0 && (
+              <div className='w-full space-y-6'>
+                <PipelineVisualization />
+                {/* Display cycle info below the visualization */}
+                {maxCycles > 0 && (
+                  <div className='text-center'>
+                    <div className='inline-flex items-center space-x-4 bg-white/80 backdrop-blur-sm rounded-full px-6 py-3 shadow-lg border border-gray-200'>
+                      <span className='font-montserrat font-semibold text-gray-700'>
+                        Cycle: {currentCycle} / {maxCycles}
+                      </span>
+                      <div
+                        className={`inline-flex items-center space-x-2 px-3 py-1 rounded-full text-sm font-medium font-montserrat ${
+                          isFinished
+                            ? 'bg-green-100 text-green-700 border border-green-200'
+                            : isRunning
+                            ? 'bg-blue-100 text-blue-700 border border-blue-200'
+                            : 'bg-yellow-100 text-yellow-700 border border-yellow-200'
+                        }`}
+                      >
+                        <div
+                          className={`w-2 h-2 rounded-full ${
+                            isFinished
+                              ? 'bg-green-500'
+                              : isRunning
+                              ? 'bg-blue-500 animate-pulse'
+                              : 'bg-yellow-500'
+                          }`}
+                        ></div>
+                        <span>
+                          {isFinished
+                            ? 'Finished'
+                            : isRunning
+                            ? 'Running'
+                            : 'Paused'}
+                        </span>
+                      </div>
+                    </div>
                   </div>
-                </div>
+                )}
+                {/* Step through the cycles */}
+                {maxCycles > 0 && <PlaybackControls />}
+                <DependencyGraph />
+              </div>
+            )}
+
+            {/* Show message if reset/never run and no instructions */}
+            {!hasStarted && instructions.length === 0 && (
+              <div className='text-center space-y-4 py-12'>
+                <div className='text-6xl'>🚀</div>
+                <h2 className='text-2xl font-montserrat font-semibold text-gray-700'>
+                  Ready to Start
+                </h2>
+                <p className='text-gray-600 font-montserrat max-w-md mx-auto'>
+                  Enter your MIPS instructions above and press "Start
+                  Simulation" to begin visualizing the pipeline execution.
+                </p>
               </div>
             )}
-          </div>
-        )}
 
-        {/* Show message if reset/never run and no instructions */}
-        {!hasStarted && instructions.length === 0 && (
-          <div className='text-center space-y-4 py-12'>
-            <div className='text-6xl'>🚀</div>
-            <h2 className='text-2xl font-montserrat font-semibold text-gray-700'>
-              Ready to Start
-            </h2>
-            <p className='text-gray-600 font-montserrat max-w-md mx-auto'>
-              Enter your MIPS instructions above and press "Start Simulation" to
-              begin visualizing the pipeline execution.
-            </p>
+            {/* Show different message if reset after a run */}
+            {hasStarted && instructions.length === 0 && (
+              <div className='text-center space-y-4 py-12'>
+                <div className='text-6xl'>🔄</div>
+                <h2 className='text-2xl font-montserrat font-semibold text-gray-700'>
+                  Simulation Reset
+                </h2>
+                <p className='text-gray-600 font-montserrat max-w-md mx-auto'>
+                  The simulation has been reset. Enter new instructions to start
+                  a fresh pipeline analysis.
+                </p>
+              </div>
+            )}
           </div>
-        )}
 
-        {/* Show different message if reset after a run */}
-        {hasStarted && instructions.length === 0 && (
-          <div className='text-center space-y-4 py-12'>
-            <div className='text-6xl'>🔄</div>
-            <h2 className='text-2xl font-montserrat font-semibold text-gray-700'>
-              Simulation Reset
-            </h2>
-            <p className='text-gray-600 font-montserrat max-w-md mx-auto'>
-              The simulation has been reset. Enter new instructions to start a
-              fresh pipeline analysis.
-            </p>
+          {/* Register file and data memory, next to the pipeline */}
+          <div className='space-y-6'>
+            <RegisterFile />
+            <MemoryViewer />
           </div>
-        )}
+        </div>
       </div>
     </div>
   );
@@ -0,0 +1,275 @@
+// src/cli/simulate.ts
+//
+// Headless simulator for batch grading. Runs the same engine as the viewer
+// and prints the pipeline diagram, the hazards and the cycle count:
+//
+//   npm run simulate -- program.s [options]
+
+import { readFileSync } from "node:fs";
+import { extname } from "node:path";
+import { parseArgs } from "node:util";
+import { assemble, formatAssemblyErrors } from "../lib/mips/assembler";
+import {
+  BRANCH_PREDICTORS,
+  type BranchPredictorKind,
+} from "../lib/mips/branch-predictor";
+import { disassemble } from "../lib/mips/disassembler";
+import {
+  ALL_FORWARDING_PATHS,
+  type ForwardingPath,
+} from "../lib/mips/forwarding";
+import { createMachineState } from "../lib/mips/machine";
+import {
+  simulatePipeline,
+  DEFAULT_PIPELINE_CONFIG,
+  STAGE_NAMES,
+  type BranchResolutionStage,
+  type PipelineConfig,
+  type PipelineSimulation,
+  type TraceCell,
+} from "../lib/mips/pipeline";
+import type { RegisterNameStyle } from "../lib/mips/registers";
+
+const USAGE = `Usage: npm run simulate -- <file> [options]
+
+Input is assembly (.s, .asm) or one 8-digit hex instruction word per line.
+
+Options:
+  --format <hex|asm>          Input format (default: from the file extension)
+  --no-hazards                Ideal pipeline: no hazard detection or stalls
+  --no-forwarding             Stall instead of forwarding
+  --forwarding-paths <list>   Comma-separated paths (default: all)
+                              ${ALL_FORWARDING_PATHS.join(", ")}
+  --no-split-cycle            Register file cannot be written and read in
+                              the same cycle
+  --branch-resolution <ID|EX> Stage resolving conditional branches (default: EX)
+  --predictor <kind>          ${BRANCH_PREDICTORS.map(({ kind }) => kind).join(
+    ", "
+  )}
+  --delay-slot                Delayed branches
+  --out-of-order              Report WAR/WAW dependencies as hazards
+  --numeric-registers         Show $8 instead of $t0
+  -h, --help                  Show this message`;
+
+const HEX_REGEX = /^[0-9a-fA-F]{8}$/; // Same check as the viewer
+
+// Text for one cell of the diagram
+const CELL_WIDTH = 5;
+const cellText = (cell: TraceCell | undefined) => {
+  switch (cell?.kind) {
+    case "stage":
+      return STAGE_NAMES[cell.stage ?? 0];
+    case "stall":
+      return "*";
+    case "flush":
+      return "x";
+    default:
+      return "";
+  }
+};
+
+class UsageError extends Error {}
+
+type InputFormat = "hex" | "asm";
+
+const isInputFormat = (format: string): format is InputFormat =>
+  format === "hex" || format === "asm";
+
+const parseOptions = (args: string[]) => {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      format: { type: "string" },
+      "no-hazards": { type: "boolean", default: false },
+      "no-forwarding": { type: "boolean", default: false },
+      "forwarding-paths": { type: "string" },
+      "no-split-cycle": { type: "boolean", default: false },
+      "branch-resolution": { type: "string", default: "EX" },
+      predictor: { type: "string", default: "not-taken" },
+      "delay-slot": { type: "boolean", default: false },
+      "out-of-order": { type: "boolean", default: false },
+      "numeric-registers": { type: "boolean", default: false },
+      help: { type: "boolean", short: "h", default: false },
+    },
+  });
+
+  if (values.help) return null;
+  if (positionals.length !== 1) {
+    throw new UsageError("Expected exactly one input file");
+  }
+
+  const forwardingPaths = values["forwarding-paths"]
+    ?.split(",")
+    .map((path) => path.trim())
+    .filter(Boolean) ?? [...ALL_FORWARDING_PATHS];
+  const unknownPath = forwardingPaths.find(
+    (path) => !ALL_FORWARDING_PATHS.includes(path as ForwardingPath)
+  );
+  if (unknownPath) {
+    throw new UsageError(`Unknown forwarding path: ${unknownPath}`);
+  }
+
+  const branchResolutionStage = values["branch-resolution"]?.toUpperCase();
+  if (branchResolutionStage !== "ID" && branchResolutionStage !== "EX") {
+    throw new UsageError("--branch-resolution must be ID or EX");
+  }
+
+  const predictor = values.predictor;
+  if (!BRANCH_PREDICTORS.some(({ kind }) => kind === predictor)) {
+    throw new UsageError(`Unknown branch predictor: ${predictor}`);
+  }
+
+  const file = positionals[0];
+  const format =
+    values.format ??
+    ([".s", ".asm"].includes(extname(file).toLowerCase()) ? "asm" : "hex");
+  if (!isInputFormat(format)) {
+    throw new UsageError("--format must be hex or asm");
+  }
+
+  const config: PipelineConfig = {
+    ...DEFAULT_PIPELINE_CONFIG,
+    stallsEnabled: !values["no-hazards"],
+    forwardingEnabled: !values["no-hazards"] && !values["no-forwarding"],
+    forwardingPaths: forwardingPaths as ForwardingPath[],
+    splitCycleRegisterFile: !values["no-split-cycle"],
+    branchResolutionStage: branchResolutionStage as BranchResolutionStage,
+    branchPredictor: predictor as BranchPredictorKind,
+    delaySlotEnabled: values["delay-slot"] ?? false,
+    outOfOrderEnabled: values["out-of-order"] ?? false,
+  };
+  const registerNames: RegisterNameStyle = values["numeric-registers"]
+    ? "numeric"
+    : "abi";
+
+  return { file, format, config, registerNames };
+};
+
+// Reads the program the same way the viewer's input box does
+const readProgram = (text: string, format: InputFormat) => {
+  if (format === "asm") {
+    const { errors, ...program } = assemble(text);
+    if (errors.length > 0) {
+      throw new Error(formatAssemblyErrors(errors));
+    }
+    return { instructions: program.instructions, program };
+  }
+
+  const instructions = text
+    .trim()
+    .split("\n")
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0);
+  const invalid = instructions.filter((inst) => !HEX_REGEX.test(inst));
+  if (invalid.length > 0) {
+    throw new Error(
+      `Invalid instruction format found: ${invalid.join(
+        ", "
+      )}. Each instruction must be 8 hexadecimal characters.`
+    );
+  }
+  return { instructions, program: undefined };
+};
+
+const formatReport = (
+  simulation: PipelineSimulation,
+  labels: Record<string, number>,
+  registerNames: RegisterNameStyle
+): string => {
+  const symbols: Record<number, string> = {};
+  Object.entries(labels).forEach(([label, address]) => {
+    symbols[address] ??= label;
+  });
+
+  const rows = simulation.instructions.map((inst, index) => {
+    const { address } = simulation.fetches[index];
+    return `${String(index).padStart(3)}  ${address
+      .toString(16)
+      .padStart(8, "0")}  ${disassemble(inst, {
+      registerNames,
+      pc: address,
+      symbols,
+    })}`;
+  });
+  const labelWidth = Math.max(...rows.map((row) => row.length)) + 2;
+
+  const lines: string[] = [];
+  const cycles = simulation.trace.map(({ cycle }) =>
+    String(cycle).padEnd(CELL_WIDTH)
+  );
+  lines.push(`${"".padEnd(labelWidth)}${cycles.join("")}`.trimEnd());
+  rows.forEach((row, index) => {
+    const cells = simulation.trace.map(({ cells }) =>
+      cellText(cells[index]).padEnd(CELL_WIDTH)
+    );
+    lines.push(`${row.padEnd(labelWidth)}${cells.join("")}`.trimEnd());
+  });
+  lines.push("", "* stall   x flushed (wrong path)");
+
+  lines.push("", "Hazards:");
+  const hazards = Object.entries(simulation.hazards).filter(
+    ([, hazard]) => hazard.type !== "NONE"
+  );
+  if (hazards.length === 0) lines.push("  none");
+  hazards.forEach(([index, hazard]) => {
+    lines.push(`${index.padStart(5)}  ${hazard.description}`);
+  });
+
+  // CPI counts the instructions that completed, not the flushed fetches
+  const completed = simulation.fetches.filter(
+    ({ flushedBy }) => flushedBy === undefined
+  ).length;
+  const flushed = simulation.fetches.length - completed;
+  lines.push(
+    "",
+    `Instructions: ${completed}${flushed > 0 ? ` (+${flushed} flushed)` : ""}`,
+    `Stall cycles: ${simulation.totalStalls}`,
+    `Total cycles: ${simulation.totalCycles}`,
+    `CPI: ${
+      completed > 0 ? (simulation.totalCycles / completed).toFixed(2) : "n/a"
+    }`
+  );
+  if (simulation.isTruncated) {
+    lines.push("Warning: execution was truncated (instruction limit reached)");
+  }
+
+  return lines.join("\n");
+};
+
+const main = (args: string[]): number => {
+  let options: ReturnType<typeof parseOptions>;
+  try {
+    options = parseOptions(args);
+  } catch (error) {
+    console.error(`${(error as Error).message}\n\n${USAGE}`);
+    return 2;
+  }
+  if (!options) {
+    console.log(USAGE);
+    return 0;
+  }
+
+  try {
+    const text = readFileSync(options.file, "utf8");
+    const { instructions, program } = readProgram(text, options.format);
+    if (instructions.length === 0) {
+      throw new Error("The program has no instructions");
+    }
+
+    const simulation = simulatePipeline(
+      instructions,
+      createMachineState({ data: program?.data }),
+      options.config
+    );
+    console.log(
+      formatReport(simulation, program?.labels ?? {}, options.registerNames)
+    );
+    return 0;
+  } catch (error) {
+    console.error((error as Error).message);
+    return 1;
+  }
+};
+
+process.exitCode = main(process.argv.slice(2));
@@ -0,0 +1,342 @@
+'use client';
+
+import type * as React from 'react';
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { cn } from '@/lib/utils';
+import {
+  useSimulationActions,
+  useSimulationState,
+} from '@/context/SimulationContext';
+import { disassemble } from '@/lib/mips/disassembler';
+import { formatLocation } from '@/lib/mips/operands';
+
+const NODE_WIDTH = 190;
+const NODE_HEIGHT = 28;
+const COLUMN_WIDTH = NODE_WIDTH + 70;
+const ROW_HEIGHT = 44;
+const PADDING = 48; // Room for edges routed around the left of the nodes
+
+const EDGE_COLORS = {
+  RAW: '#ef4444', // red-500
+  WAR: '#f97316', // orange-500
+  WAW: '#eab308', // yellow-500
+} as const;
+const CRITICAL_COLOR = '#2563eb'; // blue-600
+
+type Point = { x: number; y: number };
+
+// Midpoint of a cubic Bézier curve, where the edge label goes
+const bezierMidpoint = (p0: Point, p1: Point, p2: Point, p3: Point) => ({
+  x: (p0.x + 3 * p1.x + 3 * p2.x + p3.x) / 8,
+  y: (p0.y + 3 * p1.y + 3 * p2.y + p3.y) / 8,
+});
+
+export function DependencyGraph() {
+  const {
+    instructions,
+    fetches,
+    dependencies,
+    hazards,
+    registerUsage,
+    registerNames,
+    program,
+    selectedInstruction,
+  } = useSimulationState();
+  const { selectInstruction } = useSimulationActions();
+
+  const [showNameDependencies, setShowNameDependencies] = useState(true);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const symbols = useMemo(() => {
+    const byAddress: Record<number, string> = {};
+    Object.entries(program?.labels ?? {}).forEach(([label, address]) => {
+      byAddress[address] ??= label;
+    });
+    return byAddress;
+  }, [program]);
+
+  const graph = useMemo(() => {
+    // Flushed rows never execute, so they have no dependencies
+    const nodes = instructions
+      .map((_, index) => index)
+      .filter((index) => fetches[index]?.flushedBy === undefined);
+    const edges = nodes.flatMap((index) => dependencies[index] ?? []);
+
+    // Column = depth in the data flow: one more than the deepest producer
+    // an instruction reads from. Row = program (fetch) order.
+    const level: Record<number, number> = {};
+    // Longest chain of RAW dependencies ending at each instruction, weighted
+    // by the cycles until its result can be used (loads take one more)
+    const length: Record<number, number> = {};
+    const previous: Record<number, number | undefined> = {};
+    nodes.forEach((index) => {
+      level[index] = 0;
+      length[index] = 0;
+      (dependencies[index] ?? [])
+        .filter(({ type }) => type === 'RAW')
+        .forEach(({ from }) => {
+          level[index] = Math.max(level[index], level[from] + 1);
+          if (length[from] > length[index]) {
+            length[index] = length[from];
+            previous[index] = from;
+          }
+        });
+      length[index] += registerUsage[index]?.isLoad ? 2 : 1;
+    });
+
+    // Critical path: walk back from the end of the longest chain
+    const criticalNodes = new Set<number>();
+    const criticalEdges = new Set<string>();
+    let last = nodes.reduce<number | undefined>(
+      (best, index) =>
+        best === undefined || length[index] > length[best] ? index : best,
+      undefined
+    );
+    const criticalLength = last !== undefined ? length[last] : 0;
+    while (last !== undefined) {
+      criticalNodes.add(last);
+      const from = previous[last];
+      if (from !== undefined) criticalEdges.add(`${from}-${last}`);
+      last = from;
+    }
+
+    const position: Record<number, Point> = {};
+    nodes.forEach((index, row) => {
+      position[index] = {
+        x: PADDING + level[index] * COLUMN_WIDTH,
+        y: PADDING / 2 + row * ROW_HEIGHT,
+      };
+    });
+    const columns = Math.max(0, ...nodes.map((index) => level[index])) + 1;
+
+    return {
+      nodes,
+      edges,
+      position,
+      criticalNodes,
+      criticalEdges,
+      criticalLength,
+      width: PADDING + columns * COLUMN_WIDTH,
+      height: PADDING + nodes.length * ROW_HEIGHT,
+    };
+  }, [instructions, fetches, dependencies, registerUsage]);
+
+  // Keep the node of the selected row in view
+  useEffect(() => {
+    if (selectedInstruction === null) return;
+    containerRef.current
+      ?.querySelector(`[data-node='${selectedInstruction}']`)
+      ?.scrollIntoView({ block: 'nearest', inline: 'nearest' });
+  }, [selectedInstruction]);
+
+  if (graph.nodes.length === 0) return null;
+
+  const visibleEdges = graph.edges.filter(
+    ({ kind }) => showNameDependencies || kind === 'true'
+  );
+
+  // Edges to a deeper column go right to left; the others loop around the
+  // left side of the nodes so they don't cross them
+  const edgePath = (from: number, to: number) => {
+    const source = graph.position[from];
+    const target = graph.position[to];
+    const middle = NODE_HEIGHT / 2;
+    let points: [Point, Point, Point, Point];
+    if (target.x > source.x) {
+      const p0 = { x: source.x + NODE_WIDTH, y: source.y + middle };
+      const p3 = { x: target.x, y: target.y + middle };
+      const bend = (p3.x - p0.x) / 2;
+      points = [
+        p0,
+        { x: p0.x + bend, y: p0.y },
+        { x: p3.x - bend, y: p3.y },
+        p3,
+      ];
+    } else {
+      const p0 = { x: source.x, y: source.y + middle };
+      const p3 = { x: target.x, y: target.y + middle };
+      const bend = Math.min(PADDING - 4, 16 + (p3.y - p0.y) / 8);
+      points = [
+        p0,
+        { x: p0.x - bend, y: p0.y },
+        { x: p3.x - bend, y: p3.y },
+        p3,
+      ];
+    }
+    const [p0, p1, p2, p3] = points;
+    return {
+      d: `M ${p0.x} ${p0.y} C ${p1.x} ${p1.y}, ${p2.x} ${p2.y}, ${p3.x} ${p3.y}`,
+      label: bezierMidpoint(p0, p1, p2, p3),
+    };
+  };
+
+  return (
+    <Card className='w-full'>
+      <CardHeader>
+        <div className='flex flex-wrap items-center justify-between gap-4'>
+          <CardTitle className='text-lg'>Dependency Graph</CardTitle>
+          <div className='flex items-center space-x-2'>
+            <Switch
+              id='name-dependencies'
+              checked={showNameDependencies}
+              onCheckedChange={setShowNameDependencies}
+            />
+            <Label htmlFor='name-dependencies' className='text-sm'>
+              Show WAR/WAW
+            </Label>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className='space-y-3'>
+        <div
+          ref={containerRef}
+          className='max-h-[480px] overflow-auto rounded-md border'
+        >
+          <svg
+            width={graph.width}
+            height={graph.height}
+            className='font-mono text-xs'
+            role='img'
+            aria-label='Dependency graph'
+          >
+            <defs>
+              {Object.entries({ ...EDGE_COLORS, critical: CRITICAL_COLOR }).map(
+                ([name, color]) => (
+                  <marker
+                    key={name}
+                    id={`arrow-${name}`}
+                    viewBox='0 0 10 10'
+                    refX='10'
+                    refY='5'
+                    markerWidth='6'
+                    markerHeight='6'
+                    orient='auto-start-reverse'
+                  >
+                    <path d='M 0 0 L 10 5 L 0 10 z' fill={color} />
+                  </marker>
+                )
+              )}
+            </defs>
+
+            {visibleEdges.map((dependency) => {
+              const { from, to, type, location, matters } = dependency;
+              const { d, label } = edgePath(from, to);
+              const isCritical =
+                type === 'RAW' && graph.criticalEdges.has(`${from}-${to}`);
+              const isSelected =
+                selectedInstruction === from || selectedInstruction === to;
+              const color = isCritical ? CRITICAL_COLOR : EDGE_COLORS[type];
+              return (
+                <g
+                  key={`${type}-${from}-${to}-${location}`}
+                  opacity={
+                    selectedInstruction === null || isSelected ? 1 : 0.25
+                  }
+                >
+                  <path
+                    d={d}
+                    fill='none'
+                    stroke={color}
+                    strokeWidth={isCritical ? 2.5 : 1.5}
+                    strokeDasharray={matters ? undefined : '4 3'}
+                    markerEnd={`url(#arrow-${isCritical ? 'critical' : type})`}
+                  >
+                    <title>
+                      {type} on {formatLocation(location, registerNames)}:{' '}
+                      {from} → {to}
+                      {!matters && ' (no hazard in this model)'}
+                    </title>
+                  </path>
+                  <text
+                    x={label.x}
+                    y={label.y - 3}
+                    textAnchor='middle'
+                    fill={color}
+                    className='text-[10px]'
+                  >
+                    {formatLocation(location, registerNames)}
+                  </text>
+                </g>
+              );
+            })}
+
+            {graph.nodes.map((index) => {
+              const { x, y } = graph.position[index];
+              const address = fetches[index].address;
+              const hasHazard =
+                hazards[index] && hazards[index].type !== 'NONE';
+              const isCritical = graph.criticalNodes.has(index);
+              const isSelected = selectedInstruction === index;
+              return (
+                <g
+                  key={index}
+                  data-node={index}
+                  transform={`translate(${x}, ${y})`}
+                  className='cursor-pointer'
+                  onClick={() => selectInstruction(isSelected ? null : index)}
+                >
+                  <rect
+                    width={NODE_WIDTH}
+                    height={NODE_HEIGHT}
+                    rx={6}
+                    className={cn(
+                      'fill-card',
+                      hasHazard ? 'stroke-red-500' : 'stroke-border',
+                      isCritical && 'stroke-blue-600',
+                      isSelected && 'fill-blue-100 dark:fill-blue-900/50'
+                    )}
+                    strokeWidth={isCritical || isSelected ? 2 : 1}
+                  />
+                  <text
+                    x={8}
+                    y={NODE_HEIGHT / 2}
+                    dominantBaseline='central'
+                    className='fill-foreground'
+                  >
+                    <tspan className='fill-muted-foreground'>{index}: </tspan>
+                    {disassemble(instructions[index], {
+                      registerNames,
+                      pc: address,
+                      symbols,
+                    })}
+                  </text>
+                  <title>
+                    {hasHazard
+                      ? hazards[index].description
+                      : `Instruction ${index}`}
+                  </title>
+                </g>
+              );
+            })}
+          </svg>
+        </div>
+
+        {/* Legend */}
+        <div className='flex flex-wrap gap-4 text-xs text-muted-foreground'>
+          {Object.entries(EDGE_COLORS).map(([type, color]) => (
+            <span key={type} className='flex items-center gap-1'>
+              <span
+                className='inline-block w-4 h-0.5'
+                style={{ background: color }}
+              />
+              {type}
+            </span>
+          ))}
+          <span className='flex items-center gap-1'>
+            <span
+              className='inline-block w-4 h-0.5'
+              style={{ background: CRITICAL_COLOR }}
+            />
+            Critical path ({graph.criticalNodes.size} instructions,{' '}
+            {graph.criticalLength} cycles)
+          </span>
+          <span>Dashed: no hazard in this model</span>
+          <span>Red border: instruction has a hazard</span>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
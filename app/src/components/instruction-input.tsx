@@ -1,7 +1,7 @@
 'use client';
 
 import type * as React from 'react';
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Button } from '@/components/ui/button';
@@ -23,17 +23,49 @@ import {
   AlertTriangle,
   Zap,
   StopCircle,
+  XCircle,
+  Target,
+  Upload,
 } from 'lucide-react';
 import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  assemble,
+  formatAssemblyErrors,
+  type AssembledProgram,
+} from '@/lib/mips/assembler';
+import {
+  BRANCH_PREDICTORS,
+  type BranchPredictorKind,
+} from '@/lib/mips/branch-predictor';
+import { FORWARDING_PATHS, type ForwardingPath } from '@/lib/mips/forwarding';
+import type { BranchResolutionStage } from '@/lib/mips/pipeline';
+import {
+  readProgramFile,
+  PROGRAM_FILE_EXTENSIONS,
+} from '@/lib/mips/program-file';
 
 interface InstructionInputProps {
-  onInstructionsSubmit: (instructions: string[]) => void;
+  onInstructionsSubmit: (
+    instructions: string[],
+    program?: AssembledProgram
+  ) => void;
   onReset: () => void;
   isRunning: boolean; // Keep isRunning prop for button state logic
 }
 
 const HEX_REGEX = /^[0-9a-fA-F]{8}$/; // Basic check for 8 hex characters
 
+type InputFormat = 'hex' | 'assembly';
+
 export function InstructionInput({
   onInstructionsSubmit,
   onReset,
@@ -41,21 +73,40 @@ export function InstructionInput({
 }: InstructionInputProps) {
   const [inputText, setInputText] = useState<string>('');
   const [error, setError] = useState<string | null>(null);
+  const [inputFormat, setInputFormat] = useState<InputFormat>('hex');
+  const [loadedFile, setLoadedFile] = useState<string | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
   const {
     pauseSimulation,
     resumeSimulation,
     setForwardingEnabled,
+    setForwardingPaths,
+    setSplitCycleRegisterFile,
     setStallsEnabled,
+    setBranchResolutionStage,
+    setBranchPredictor,
+    setDelaySlotEnabled,
+    setOutOfOrderEnabled,
   } = useSimulationActions();
   const {
     currentCycle,
     isFinished,
+    hasCompleted,
     instructions,
     hazards,
     stalls,
     forwardingEnabled,
+    forwardingPaths,
+    splitCycleRegisterFile,
     stallsEnabled,
     forwardings,
+    fetches,
+    isTruncated,
+    branchResolutionStage,
+    branchPredictor,
+    delaySlotEnabled,
+    outOfOrderEnabled,
   } = useSimulationState();
 
   useEffect(() => {
@@ -67,8 +118,9 @@ export function InstructionInput({
   const hasStarted = currentCycle > 0;
   // Can only pause/resume if started and not finished
   const canPauseResume = hasStarted && !isFinished;
-  // Input/Start button should be disabled if simulation has started and isn't finished
-  const disableInputAndStart = hasStarted && !isFinished;
+  // Input/Start button should be disabled until the run has completed once;
+  // stepping back through a completed run keeps them enabled
+  const disableInputAndStart = hasStarted && !hasCompleted;
 
   // Count hazards and stalls
   const hazardCount = Object.values(hazards).filter(
@@ -78,9 +130,47 @@ export function InstructionInput({
   const forwardingCount = Object.values(forwardings).filter(
     (f) => f.length > 0
   ).length;
+  const flushCount = fetches.filter(
+    (fetch) => fetch.flushedBy !== undefined
+  ).length;
+
+  // Prediction accuracy over all executed conditional branches, and per
+  // branch address
+  const predictions = fetches.filter((fetch) => fetch.prediction);
+  const correctPredictions = predictions.filter(
+    (fetch) => fetch.prediction?.correct
+  ).length;
+  const predictionsByBranch: Record<
+    number,
+    { correct: number; total: number }
+  > = {};
+  predictions.forEach(({ address, prediction }) => {
+    const entry = (predictionsByBranch[address] ??= { correct: 0, total: 0 });
+    entry.total++;
+    if (prediction?.correct) entry.correct++;
+  });
+  const formatAccuracy = (correct: number, total: number) =>
+    `${correct}/${total} (${((correct / total) * 100).toFixed(1)}%)`;
+
+  // Turn the input text into hex instruction words, assembling it first if
+  // needed. Returns null and sets the error message if the input is invalid.
+  const parseInput = (): {
+    instructions: string[];
+    program?: AssembledProgram;
+  } | null => {
+    if (inputFormat === 'assembly') {
+      const { errors, ...program } = assemble(inputText);
+      if (errors.length > 0) {
+        setError(formatAssemblyErrors(errors));
+        return null;
+      }
+      if (program.instructions.length === 0) {
+        setError('Please enter at least one MIPS assembly instruction.');
+        return null;
+      }
+      return { instructions: program.instructions, program };
+    }
 
-  const handleSubmit = () => {
-    setError(null);
     const lines = inputText.trim().split('\n');
     const currentInstructions = lines
       .map((line) => line.trim())
@@ -90,7 +180,7 @@ export function InstructionInput({
       setError(
         'Please enter at least one MIPS instruction in hexadecimal format.'
       );
-      return;
+      return null;
     }
 
     const invalidInstructions = currentInstructions.filter(
@@ -102,10 +192,60 @@ export function InstructionInput({
           ', '
         )}. Each instruction must be 8 hexadecimal characters.`
       );
+      return null;
+    }
+
+    return { instructions: currentInstructions };
+  };
+
+  // Load a program file into the input box, switching to its format
+  const loadFile = async (file: File) => {
+    if (disableInputAndStart) return;
+    let content: string;
+    try {
+      content = await file.text();
+    } catch {
+      setError(`Could not read ${file.name}.`);
+      return;
+    }
+
+    const { format, text, problems } = readProgramFile(file.name, content);
+    setInputFormat(format);
+    setInputText(text);
+    setLoadedFile(
+      `Loaded ${file.name} as ${format === 'hex' ? 'hex' : 'assembly'}`
+    );
+    setError(
+      problems.length > 0
+        ? `Unsupported content in ${file.name}${
+            format === 'hex' ? ' (skipped)' : ''
+          }:\n${formatAssemblyErrors(problems)}`
+        : null
+    );
+  };
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (disableInputAndStart || !e.dataTransfer.types.includes('Files')) {
       return;
     }
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'copy';
+    setIsDragging(true);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    const file = e.dataTransfer.files[0];
+    if (file) loadFile(file);
+  };
 
-    onInstructionsSubmit(currentInstructions);
+  const handleSubmit = () => {
+    setError(null);
+    const parsed = parseInput();
+    if (parsed) {
+      onInstructionsSubmit(parsed.instructions, parsed.program);
+    }
   };
 
   const handlePauseResume = () => {
@@ -116,29 +256,47 @@ export function InstructionInput({
     }
   };
 
-  // Function to handle the change of forwarding
-  const handleForwardingChange = (checked: boolean) => {
-    setForwardingEnabled(checked);
-
-    // If the simulation has finished, restart it with the new configuration
-    if (hasStarted && isFinished) {
+  // If the simulation has finished, restart it with the new configuration
+  const restartWithNewConfiguration = () => {
+    if (hasStarted && hasCompleted) {
       setTimeout(() => {
         onReset();
         setTimeout(() => {
-          const currentInstructions = inputText
-            .trim()
-            .split('\n')
-            .map((line) => line.trim())
-            .filter((line) => line.length > 0);
-
-          if (currentInstructions.length > 0) {
-            onInstructionsSubmit(currentInstructions);
+          const parsed = parseInput();
+          if (parsed) {
+            onInstructionsSubmit(parsed.instructions, parsed.program);
           }
         }, 50);
       }, 50);
     }
   };
 
+  // Function to handle the change of forwarding
+  const handleForwardingChange = (checked: boolean) => {
+    setForwardingEnabled(checked);
+
+    restartWithNewConfiguration();
+  };
+
+  // Function to handle adding or removing a forwarding path
+  const handleForwardingPathChange = (
+    path: ForwardingPath,
+    checked: boolean
+  ) => {
+    setForwardingPaths(
+      checked
+        ? [...forwardingPaths, path]
+        : forwardingPaths.filter((selected) => selected !== path)
+    );
+    restartWithNewConfiguration();
+  };
+
+  // Function to handle the change of the register file timing
+  const handleSplitCycleChange = (checked: boolean) => {
+    setSplitCycleRegisterFile(checked);
+    restartWithNewConfiguration();
+  };
+
   // Function to handle the change of stalls
   const handleStallsChange = (checked: boolean) => {
     setStallsEnabled(checked);
@@ -148,51 +306,134 @@ export function InstructionInput({
       setForwardingEnabled(false);
     }
 
-    // If the simulation has finished, restart it with the new configuration
-    if (hasStarted && isFinished) {
-      setTimeout(() => {
-        onReset();
-        setTimeout(() => {
-          const currentInstructions = inputText
-            .trim()
-            .split('\n')
-            .map((line) => line.trim())
-            .filter((line) => line.length > 0);
-
-          if (currentInstructions.length > 0) {
-            onInstructionsSubmit(currentInstructions);
-          }
-        }, 50);
-      }, 50);
-    }
+    restartWithNewConfiguration();
+  };
+
+  // Function to handle the change of the delay slot mode
+  const handleDelaySlotChange = (checked: boolean) => {
+    setDelaySlotEnabled(checked);
+    restartWithNewConfiguration();
+  };
+
+  // Function to handle the change of the dependency analysis model
+  const handleOutOfOrderChange = (checked: boolean) => {
+    setOutOfOrderEnabled(checked);
+    restartWithNewConfiguration();
+  };
+
+  // Function to handle the change of the branch predictor
+  const handleBranchPredictorChange = (kind: BranchPredictorKind) => {
+    setBranchPredictor(kind);
+    restartWithNewConfiguration();
+  };
+
+  // Function to handle the change of the branch resolution stage
+  const handleBranchResolutionChange = (stage: BranchResolutionStage) => {
+    setBranchResolutionStage(stage);
+    restartWithNewConfiguration();
   };
 
   return (
-    <Card className='w-full max-w-md'>
+    <Card
+      className={`w-full max-w-md ${
+        isDragging ? 'ring-2 ring-primary ring-offset-2' : ''
+      }`}
+      onDragOver={handleDragOver}
+      onDragLeave={(e) => {
+        // Ignore moves between the card's own children
+        if (!e.currentTarget.contains(e.relatedTarget as Node)) {
+          setIsDragging(false);
+        }
+      }}
+      onDrop={handleDrop}
+    >
       <CardHeader>
         <CardTitle>MIPS Instructions</CardTitle>
         <CardDescription>
-          Enter instructions in hex format (8 characters) to visualize pipeline
-          with hazard detection
+          Enter instructions in hex format (8 characters) or as MIPS assembly to
+          visualize pipeline with hazard detection
         </CardDescription>
       </CardHeader>
       <CardContent className='space-y-4'>
         <div className='grid w-full gap-1.5'>
-          <Label htmlFor='instructions'>
-            Enter Hex Instructions (one per line)
-          </Label>
+          {/* Input format selector */}
+          <Tabs
+            value={inputFormat}
+            onValueChange={(value) => {
+              setInputFormat(value as InputFormat);
+              setError(null);
+            }}
+          >
+            <TabsList className='grid w-full grid-cols-2'>
+              <TabsTrigger value='hex' disabled={disableInputAndStart}>
+                Hex
+              </TabsTrigger>
+              <TabsTrigger value='assembly' disabled={disableInputAndStart}>
+                Assembly
+              </TabsTrigger>
+            </TabsList>
+          </Tabs>
+          <div className='flex items-center justify-between gap-2'>
+            <Label htmlFor='instructions'>
+              {inputFormat === 'hex'
+                ? 'Enter Hex Instructions (one per line)'
+                : 'Enter Assembly Instructions (one per line)'}
+            </Label>
+            {/* Program files can also be dropped anywhere on the card */}
+            <Button
+              variant='outline'
+              size='sm'
+              onClick={() => fileInputRef.current?.click()}
+              disabled={disableInputAndStart}
+            >
+              <Upload className='w-4 h-4 mr-1' />
+              Open File
+            </Button>
+            <input
+              ref={fileInputRef}
+              type='file'
+              accept={PROGRAM_FILE_EXTENSIONS.join(',')}
+              className='hidden'
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) loadFile(file);
+                e.target.value = ''; // Allow loading the same file again
+              }}
+            />
+          </div>
           <Textarea
             id='instructions'
-            placeholder='e.g., 00a63820...' // Removed 0x prefix for consistency with regex
+            placeholder={
+              inputFormat === 'hex'
+                ? 'e.g., 00a63820...' // Removed 0x prefix for consistency with regex
+                : 'e.g., loop: addi $t0, $t0, -1  # comment'
+            }
             value={inputText}
-            onChange={(e) => setInputText(e.target.value)}
+            onChange={(e) => {
+              setInputText(e.target.value);
+              setLoadedFile(null);
+            }}
             rows={5}
             className='font-mono'
             // Disable input field if simulation has started and not yet finished
             disabled={disableInputAndStart}
-            aria-label='MIPS Hex Instructions Input'
+            aria-label={
+              inputFormat === 'hex'
+                ? 'MIPS Hex Instructions Input'
+                : 'MIPS Assembly Input'
+            }
           />
-          {error && <p className='text-sm text-destructive'>{error}</p>}
+          <p className='text-xs text-muted-foreground'>
+            {loadedFile ??
+              `Or drop a ${PROGRAM_FILE_EXTENSIONS.join(
+                ', '
+              )} file on this card`}
+          </p>
+          {error && (
+            <p className='text-sm text-destructive whitespace-pre-line'>
+              {error}
+            </p>
+          )}
         </div>
 
         {/* Pipeline configuration switches */}
@@ -230,6 +471,147 @@ export function InstructionInput({
             </Label>
           </div>
 
+          {/* Individual paths of the forwarding unit */}
+          {forwardingEnabled && stallsEnabled && (
+            <div className='grid gap-2 pl-6'>
+              {FORWARDING_PATHS.map(({ path, label, description }) => (
+                <div key={path} className='flex items-start space-x-2'>
+                  <Checkbox
+                    id={`forwarding-path-${path}`}
+                    checked={forwardingPaths.includes(path)}
+                    onCheckedChange={(checked) =>
+                      handleForwardingPathChange(path, checked === true)
+                    }
+                    disabled={disableInputAndStart}
+                  />
+                  <div className='grid gap-0.5 leading-none'>
+                    <Label
+                      htmlFor={`forwarding-path-${path}`}
+                      className='text-sm'
+                    >
+                      {label}
+                    </Label>
+                    <span className='text-xs text-muted-foreground'>
+                      {description}
+                    </span>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* Whether ID can read a register in the cycle WB writes it */}
+          <div className='flex items-center space-x-2'>
+            <Switch
+              id='split-cycle-mode'
+              checked={splitCycleRegisterFile}
+              onCheckedChange={handleSplitCycleChange}
+              disabled={disableInputAndStart || !stallsEnabled}
+            />
+            <Label
+              htmlFor='split-cycle-mode'
+              className={`text-sm ${
+                !stallsEnabled ? 'text-muted-foreground' : ''
+              }`}
+            >
+              Split-Cycle Register File
+            </Label>
+          </div>
+          {stallsEnabled && (
+            <p className='text-xs text-muted-foreground'>
+              {splitCycleRegisterFile
+                ? 'WB writes in the first half of the cycle and ID reads in the second, so a dependent instruction waits 2 cycles without forwarding.'
+                : 'ID cannot read a register in the cycle WB writes it, so a dependent instruction waits 3 cycles without forwarding.'}
+            </p>
+          )}
+
+          {/* Out-of-order analysis: name dependencies become hazards */}
+          <div className='flex items-center space-x-2'>
+            <Switch
+              id='out-of-order-mode'
+              checked={outOfOrderEnabled}
+              onCheckedChange={handleOutOfOrderChange}
+              disabled={disableInputAndStart}
+            />
+            <Label htmlFor='out-of-order-mode' className='text-sm'>
+              Out-of-Order Dependency Analysis
+            </Label>
+          </div>
+          {outOfOrderEnabled && (
+            <p className='text-xs text-muted-foreground'>
+              WAR and WAW dependencies are treated as hazards, as in an
+              out-of-order pipeline without register renaming. Timing is still
+              simulated in order.
+            </p>
+          )}
+
+          {/* Delayed branches: the next instruction always executes */}
+          <div className='flex items-center space-x-2'>
+            <Switch
+              id='delay-slot-mode'
+              checked={delaySlotEnabled}
+              onCheckedChange={handleDelaySlotChange}
+              disabled={disableInputAndStart}
+            />
+            <Label htmlFor='delay-slot-mode' className='text-sm'>
+              Branch Delay Slot
+            </Label>
+          </div>
+
+          {/* Stage where branches are resolved, which sets the flush penalty */}
+          <div className='flex items-center justify-between gap-2'>
+            <Label htmlFor='branch-resolution' className='text-sm'>
+              Resolve Branches In
+            </Label>
+            <Select
+              value={branchResolutionStage}
+              onValueChange={(value) =>
+                handleBranchResolutionChange(value as BranchResolutionStage)
+              }
+              disabled={disableInputAndStart}
+            >
+              <SelectTrigger id='branch-resolution' className='h-8 w-44'>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value='ID'>ID (1-cycle penalty)</SelectItem>
+                <SelectItem value='EX'>EX (2-cycle penalty)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {/* Branch prediction scheme */}
+          <div className='flex items-center justify-between gap-2'>
+            <Label htmlFor='branch-predictor' className='text-sm'>
+              Branch Predictor
+            </Label>
+            <Select
+              value={branchPredictor}
+              onValueChange={(value) =>
+                handleBranchPredictorChange(value as BranchPredictorKind)
+              }
+              disabled={disableInputAndStart}
+            >
+              <SelectTrigger id='branch-predictor' className='h-8 w-44'>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {BRANCH_PREDICTORS.map((predictor) => (
+                  <SelectItem key={predictor.kind} value={predictor.kind}>
+                    {predictor.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <p className='text-xs text-muted-foreground'>
+            {
+              BRANCH_PREDICTORS.find(
+                (predictor) => predictor.kind === branchPredictor
+              )?.description
+            }
+          </p>
+
           {!stallsEnabled && (
             <p className='text-xs text-muted-foreground'>
               When hazard detection is disabled, all instructions execute in
@@ -250,7 +632,9 @@ export function InstructionInput({
                 {forwardingEnabled && forwardingCount > 0 && (
                   <div className='flex items-center text-sm'>
                     <Zap className='w-4 h-4 mr-2 text-green-500' />
-                    <span>{forwardingCount} forwarding paths active</span>
+                    <span>
+                      {forwardingCount} instructions with forwarded operands
+                    </span>
                   </div>
                 )}
                 {stallCount > 0 && (
@@ -277,6 +661,50 @@ export function InstructionInput({
           </div>
         )}
 
+        {/* Control hazards: wrong-path fetches squashed by taken branches */}
+        {hasStarted &&
+          (flushCount > 0 || predictions.length > 0 || isTruncated) && (
+            <div className='flex flex-col gap-1 p-2 bg-muted rounded'>
+              {flushCount > 0 && (
+                <div className='flex items-center text-sm'>
+                  <XCircle className='w-4 h-4 mr-2 text-gray-500' />
+                  <span>
+                    {flushCount} wrong-path instructions flushed (branches
+                    resolve in {branchResolutionStage}, jumps in ID)
+                  </span>
+                </div>
+              )}
+              {hasCompleted && predictions.length > 0 && (
+                <div className='flex flex-col text-sm'>
+                  <div className='flex items-center'>
+                    <Target className='w-4 h-4 mr-2 text-blue-500' />
+                    <span>
+                      Prediction accuracy:{' '}
+                      {formatAccuracy(correctPredictions, predictions.length)}
+                    </span>
+                  </div>
+                  {Object.entries(predictionsByBranch).map(
+                    ([address, { correct, total }]) => (
+                      <span
+                        key={address}
+                        className='ml-6 font-mono text-xs text-muted-foreground'
+                      >
+                        0x{Number(address).toString(16).padStart(8, '0')}:{' '}
+                        {formatAccuracy(correct, total)}
+                      </span>
+                    )
+                  )}
+                </div>
+              )}
+              {isTruncated && (
+                <div className='flex items-center text-sm'>
+                  <AlertTriangle className='w-4 h-4 mr-2 text-yellow-500' />
+                  <span>Execution stopped after the instruction limit</span>
+                </div>
+              )}
+            </div>
+          )}
+
         {hasStarted && !stallsEnabled && (
           <div className='flex items-center gap-1 p-2 bg-muted rounded text-sm'>
             <StopCircle className='w-4 h-4 text-blue-500' />
@@ -291,7 +719,7 @@ export function InstructionInput({
             disabled={disableInputAndStart}
             className='flex-1'
           >
-            {isFinished
+            {hasCompleted
               ? 'Finished'
               : hasStarted
               ? 'Running...'
@@ -0,0 +1,274 @@
+'use client';
+
+import type * as React from 'react';
+import { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { ChevronLeft, ChevronRight, Upload, Trash2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import {
+  useSimulationActions,
+  useSimulationState,
+} from '@/context/SimulationContext';
+import { formatAssemblyErrors } from '@/lib/mips/assembler';
+import { DATA_BASE } from '@/lib/mips/layout';
+import { readMemory } from '@/lib/mips/machine';
+import { parseMemoryImage } from '@/lib/mips/memory-image';
+import { STAGE_NAMES } from '@/lib/mips/pipeline';
+
+type MemoryView = 'words' | 'bytes' | 'ascii';
+
+const MEM_STAGE = STAGE_NAMES.indexOf('MEM');
+const BYTES_PER_ROW = 16;
+const ROWS_PER_PAGE = 8;
+const PAGE_SIZE = BYTES_PER_ROW * ROWS_PER_PAGE;
+
+const toHex = (value: number, digits: number) =>
+  (value >>> 0).toString(16).padStart(digits, '0');
+
+export function MemoryViewer() {
+  const {
+    currentCycle,
+    machine,
+    initialMemory,
+    instructionStages,
+    executions,
+  } = useSimulationState();
+  const { setInitialMemory } = useSimulationActions();
+
+  const [view, setView] = useState<MemoryView>('words');
+  const [viewBase, setViewBase] = useState<number>(DATA_BASE);
+  const [addressText, setAddressText] = useState<string>(toHex(DATA_BASE, 8));
+  const [imageText, setImageText] = useState<string>('');
+  const [error, setError] = useState<string | null>(null);
+
+  const hasStarted = currentCycle > 0;
+  const memory = hasStarted ? machine.memory : initialMemory;
+
+  // The access made by the instruction in MEM this cycle, if any
+  const memIndex = Object.keys(instructionStages)
+    .map(Number)
+    .find((index) => instructionStages[index] === MEM_STAGE);
+  const access =
+    hasStarted && memIndex !== undefined
+      ? executions[memIndex]?.memoryAccess
+      : undefined;
+  const isAccessed = (address: number) =>
+    access !== undefined &&
+    address >= access.address &&
+    address < access.address + access.size;
+
+  const goTo = (address: number) => {
+    const base = Math.max(0, address - (address % BYTES_PER_ROW));
+    setViewBase(base);
+    setAddressText(toHex(base, 8));
+  };
+
+  const handleAddressSubmit = () => {
+    const address = parseInt(addressText.replace(/^0x/i, ''), 16);
+    if (!Number.isNaN(address)) {
+      goTo(address);
+    }
+  };
+
+  const handleLoadImage = () => {
+    setError(null);
+    const { memory: image, errors } = parseMemoryImage(imageText);
+    if (errors.length > 0) {
+      setError(formatAssemblyErrors(errors));
+      return;
+    }
+    setInitialMemory(image);
+  };
+
+  const rows = Array.from(
+    { length: ROWS_PER_PAGE },
+    (_, row) => viewBase + row * BYTES_PER_ROW
+  );
+
+  const cellClass = (address: number, size: number) =>
+    cn(
+      'px-1 rounded transition-colors duration-300',
+      Array.from({ length: size }, (_, i) => address + i).some(isAccessed) &&
+        (access?.type === 'store'
+          ? 'bg-orange-200 text-orange-800 dark:bg-orange-900/50'
+          : 'bg-blue-200 text-blue-800 dark:bg-blue-900/50')
+    );
+
+  const renderRow = (rowAddress: number) => {
+    switch (view) {
+      case 'words':
+        return Array.from({ length: BYTES_PER_ROW / 4 }, (_, i) => {
+          const address = rowAddress + i * 4;
+          return (
+            <span key={address} className={cellClass(address, 4)}>
+              {toHex(readMemory(memory, address, 4), 8)}
+            </span>
+          );
+        });
+      case 'bytes':
+        return Array.from({ length: BYTES_PER_ROW }, (_, i) => {
+          const address = rowAddress + i;
+          return (
+            <span key={address} className={cellClass(address, 1)}>
+              {toHex(readMemory(memory, address, 1), 2)}
+            </span>
+          );
+        });
+      case 'ascii':
+        return Array.from({ length: BYTES_PER_ROW }, (_, i) => {
+          const address = rowAddress + i;
+          const byte = readMemory(memory, address, 1);
+          // Show printable characters only
+          const char =
+            byte >= 0x20 && byte < 0x7f ? String.fromCharCode(byte) : '.';
+          return (
+            <span key={address} className={cellClass(address, 1)}>
+              {char}
+            </span>
+          );
+        });
+    }
+  };
+
+  return (
+    <Card className='w-full'>
+      <CardHeader>
+        <CardTitle className='text-lg'>
+          Data Memory
+          {hasStarted && (
+            <span className='ml-2 text-sm font-normal text-muted-foreground'>
+              (cycle {currentCycle})
+            </span>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className='space-y-3'>
+        <Tabs
+          value={view}
+          onValueChange={(value) => setView(value as MemoryView)}
+        >
+          <TabsList className='grid w-full grid-cols-3'>
+            <TabsTrigger value='words'>Words</TabsTrigger>
+            <TabsTrigger value='bytes'>Bytes</TabsTrigger>
+            <TabsTrigger value='ascii'>ASCII</TabsTrigger>
+          </TabsList>
+        </Tabs>
+
+        {/* Address navigation */}
+        <div className='flex items-center gap-2'>
+          <Button
+            variant='outline'
+            size='icon'
+            onClick={() => goTo(Math.max(0, viewBase - PAGE_SIZE))}
+            aria-label='Previous Memory Page'
+          >
+            <ChevronLeft className='w-4 h-4' />
+          </Button>
+          <Input
+            value={addressText}
+            onChange={(e) => setAddressText(e.target.value)}
+            onBlur={handleAddressSubmit}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') handleAddressSubmit();
+            }}
+            className='h-9 font-mono text-xs'
+            aria-label='Memory Address'
+          />
+          <Button
+            variant='outline'
+            size='icon'
+            onClick={() => goTo(viewBase + PAGE_SIZE)}
+            aria-label='Next Memory Page'
+          >
+            <ChevronRight className='w-4 h-4' />
+          </Button>
+        </div>
+
+        <div className='font-mono text-xs space-y-0.5 overflow-x-auto'>
+          {rows.map((rowAddress) => (
+            <div key={rowAddress} className='flex gap-2 whitespace-nowrap'>
+              <span className='text-muted-foreground'>
+                {toHex(rowAddress, 8)}
+              </span>
+              <span className={cn('flex', view === 'ascii' ? '' : 'gap-1')}>
+                {renderRow(rowAddress)}
+              </span>
+            </div>
+          ))}
+        </div>
+
+        {/* Access made by the instruction currently in MEM */}
+        {access && (
+          <div className='flex items-center justify-between text-xs'>
+            <span>
+              MEM: {access.type === 'store' ? 'store to' : 'load from'} 0x
+              {toHex(access.address, 8)} ({access.size} byte
+              {access.size > 1 && 's'})
+            </span>
+            {(access.address < viewBase ||
+              access.address >= viewBase + PAGE_SIZE) && (
+              <Button
+                variant='link'
+                size='sm'
+                className='h-auto p-0 text-xs'
+                onClick={() => goTo(access.address)}
+              >
+                Show
+              </Button>
+            )}
+          </div>
+        )}
+
+        {/* Memory preloading, only before the run */}
+        {!hasStarted && (
+          <div className='grid w-full gap-1.5 pt-2 border-t'>
+            <Label htmlFor='memory-image' className='text-sm'>
+              Preload memory (hex dump or .data section)
+            </Label>
+            <Textarea
+              id='memory-image'
+              placeholder={'e.g., 10010000: 00000005 0000000a\nor: .word 5, 10'}
+              value={imageText}
+              onChange={(e) => setImageText(e.target.value)}
+              rows={3}
+              className='font-mono text-xs'
+              aria-label='Memory Preload Input'
+            />
+            {error && (
+              <p className='text-sm text-destructive whitespace-pre-line'>
+                {error}
+              </p>
+            )}
+            <div className='flex gap-2'>
+              <Button
+                variant='outline'
+                size='sm'
+                onClick={handleLoadImage}
+                className='flex-1'
+              >
+                <Upload className='w-4 h-4 mr-2' />
+                Load
+              </Button>
+              <Button
+                variant='outline'
+                size='sm'
+                onClick={() => {
+                  setInitialMemory({});
+                  setError(null);
+                }}
+                aria-label='Clear Preloaded Memory'
+              >
+                <Trash2 className='w-4 h-4' />
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,6 +1,7 @@
 'use client';
 
 import type * as React from 'react';
+import { useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
 import {
   Table,
   TableHeader,
@@ -19,10 +20,22 @@ import {
   CheckSquare,
   AlertTriangle,
   Zap,
+  XCircle,
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
-import { useSimulationState } from '@/context/SimulationContext';
+import {
+  useSimulationActions,
+  useSimulationState,
+} from '@/context/SimulationContext';
 import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { disassemble } from '@/lib/mips/disassembler';
+import { FORWARDING_PATHS, type ForwardingPath } from '@/lib/mips/forwarding';
+import { TEXT_BASE } from '@/lib/mips/layout';
+import type { ExecutionRecord } from '@/lib/mips/machine';
+import { formatLocation, type Operand } from '@/lib/mips/operands';
+import { formatRegister } from '@/lib/mips/registers';
 
 const STAGES = [
   { name: 'IF', icon: Download },
@@ -32,132 +45,212 @@ const STAGES = [
   { name: 'WB', icon: CheckSquare },
 ] as const;
 
+// Arrow colors by forwarding path
+const FORWARDING_PATH_COLORS: Record<ForwardingPath, string> = {
+  'ex-mem-to-ex': '#10b981', // emerald-500
+  'mem-wb-to-ex': '#8b5cf6', // violet-500
+  'mem-to-mem': '#0ea5e9', // sky-500
+  'ex-mem-to-id': '#f59e0b', // amber-500
+};
+
+const forwardingPathLabel = (path: ForwardingPath) =>
+  FORWARDING_PATHS.find((option) => option.path === path)?.label ?? path;
+
+type ForwardingArrow = {
+  key: string;
+  path: ForwardingPath;
+  label: string;
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+  isCurrent: boolean;
+};
+
 export function PipelineVisualization() {
   // Get state from context
   const {
     instructions,
+    fetches,
     currentCycle: cycle,
     maxCycles, // Max cycles determines the number of columns
     isRunning,
-    instructionStages, // Use the pre-calculated stages
+    trace, // Every cycle of the run
     isFinished, // Use the finished flag from context
     hazards,
     forwardings,
     stalls,
     registerUsage,
-    currentStallCycles,
+    dependencies,
     stallsEnabled,
     forwardingEnabled,
+    registerNames,
+    program,
+    executions,
+    selectedInstruction,
   } = useSimulationState();
-
-  // Use maxCycles for the number of columns if it's calculated, otherwise 0
-  const totalCyclesToDisplay = maxCycles > 0 ? maxCycles : 0;
-  const cycleNumbers = Array.from(
-    { length: totalCyclesToDisplay },
-    (_, i) => i + 1
+  const { setRegisterNames, selectInstruction } = useSimulationActions();
+  const tableRef = useRef<HTMLDivElement>(null);
+  const [showForwardingArrows, setShowForwardingArrows] = useState(true);
+  const [forwardingArrows, setForwardingArrows] = useState<ForwardingArrow[]>(
+    []
   );
-
-  // Calculate stalls before an instruction
-  const calculatePrecedingStalls = (index: number): number => {
-    if (!stallsEnabled) return 0;
-    let totalStalls = 0;
-    for (let i = 0; i < index; i++) {
-      totalStalls += stalls[i] || 0;
+  const [overlaySize, setOverlaySize] = useState({ width: 0, height: 0 });
+
+  // Keep the row selected here or in the dependency graph in view
+  useEffect(() => {
+    if (selectedInstruction === null) return;
+    tableRef.current
+      ?.querySelector(`[data-row='${selectedInstruction}']`)
+      ?.scrollIntoView({ block: 'nearest', inline: 'nearest' });
+  }, [selectedInstruction]);
+
+  // Forwarding arrows, from the pipeline register the value is taken from
+  // (the right edge of the producer's cell in the previous cycle) to the
+  // stage receiving it. Positions are measured from the rendered cells.
+  useLayoutEffect(() => {
+    const container = tableRef.current;
+    if (!container || !showForwardingArrows || !forwardingEnabled) {
+      setForwardingArrows([]);
+      return;
     }
-    return totalStalls;
-  };
 
-  // Determine if a cell represents a stall
-  const isStallCell = (instIndex: number, cycleNum: number): boolean => {
-    if (!stallsEnabled || stalls[instIndex] <= 0) return false;
-    const expectedCycleWithoutStalls = instIndex + 2;
-    const precedingStalls = calculatePrecedingStalls(instIndex);
-
-    return (
-      cycleNum > expectedCycleWithoutStalls + precedingStalls &&
-      cycleNum <=
-        expectedCycleWithoutStalls + precedingStalls + stalls[instIndex]
-    );
-  };
+    const measure = () => {
+      const origin = container.getBoundingClientRect();
+      const cellRect = (row: number, cycleNum: number) =>
+        container
+          .querySelector(`[data-cell='${row}:${cycleNum}']`)
+          ?.getBoundingClientRect();
+
+      const arrows: ForwardingArrow[] = [];
+      Object.values(forwardings).forEach((list) =>
+        list.forEach((forwarding, operand) => {
+          // Only the forwards that have happened by the current cycle
+          if (forwarding.cycle > cycle) return;
+          const source = cellRect(forwarding.from, forwarding.cycle - 1);
+          const target = cellRect(forwarding.to, forwarding.cycle);
+          if (!source || !target) return;
+
+          const { path } = forwarding;
+          // Spread the arrows of several operands into the same cell
+          const offset = (operand - (list.length - 1) / 2) * 8;
+          arrows.push({
+            key: `${forwarding.from}-${forwarding.to}-${forwarding.register}-${path}`,
+            path,
+            label: `${forwarding.register}: ${forwardingPathLabel(
+              path
+            )} (instruction ${forwarding.from} → ${forwarding.to}, cycle ${
+              forwarding.cycle
+            })`,
+            x1: source.right - origin.left + container.scrollLeft - 4,
+            y1: source.top + source.height / 2 - origin.top + offset,
+            x2: target.left - origin.left + container.scrollLeft + 6,
+            y2: target.top + target.height / 2 - origin.top + offset,
+            isCurrent: forwarding.cycle === cycle,
+          });
+        })
+      );
+      setForwardingArrows(arrows);
+      setOverlaySize({
+        width: container.scrollWidth,
+        height: container.scrollHeight,
+      });
+    };
 
-  // Determine if this cell shows forwarding
-  const getForwardingInfo = (instIndex: number, cycleNum: number) => {
-    if (
-      !stallsEnabled ||
-      !forwardingEnabled ||
-      !forwardings[instIndex] ||
-      forwardings[instIndex].length === 0
-    ) {
-      return { isForwarding: false };
+    measure();
+    const observer = new ResizeObserver(measure);
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, [
+    forwardings,
+    forwardingEnabled,
+    showForwardingArrows,
+    cycle,
+    maxCycles,
+    registerNames,
+  ]);
+
+  // Address -> label, so branch targets and rows can be shown by name
+  const symbols = useMemo(() => {
+    const byAddress: Record<number, string> = {};
+    Object.entries(program?.labels ?? {}).forEach(([label, address]) => {
+      byAddress[address] ??= label;
+    });
+    return byAddress;
+  }, [program]);
+
+  // Read or write set of an instruction, e.g. "$t1, HI"
+  const formatOperands = (operands: Operand[]): string =>
+    operands.length > 0
+      ? operands
+          .map(({ location }) => formatLocation(location, registerNames))
+          .join(', ')
+      : 'nothing';
+
+  // Summarize the operand values an executed instruction read and the
+  // results it produced, e.g. "$t1=5, $t2=3 → $t0=8"
+  const describeExecution = (record: ExecutionRecord): string => {
+    const hex = (value: number) => `0x${(value >>> 0).toString(16)}`;
+    const reads = record.reads
+      .map(
+        ({ register, value }) =>
+          `${formatRegister(register, registerNames)}=${value}`
+      )
+      .join(', ');
+
+    const results: string[] = [];
+    const access = record.memoryAccess;
+    if (access?.type === 'store') {
+      results.push(`MEM[${hex(access.address)}]=${access.value}`);
     }
-
-    const precedingStalls = calculatePrecedingStalls(instIndex);
-    const expectedStage = cycleNum - instIndex - 1 - precedingStalls;
-
-    // Show forwarding in the EX stage (stage 2)
-    if (expectedStage === 2) {
-      return {
-        isForwarding: true,
-        forwardingInfo: forwardings[instIndex],
-      };
+    if (record.write) {
+      const source =
+        access?.type === 'load' ? `MEM[${hex(access.address)}]` : '';
+      results.push(
+        `${formatRegister(record.write.register, registerNames)}=${
+          record.write.value ?? source
+        }`
+      );
+    }
+    if (record.hi !== undefined) results.push(`HI=${record.hi}`);
+    if (record.lo !== undefined) results.push(`LO=${record.lo}`);
+    if (record.branchTaken !== undefined) {
+      results.push(
+        record.branchTaken ? `taken → ${hex(record.nextPc)}` : 'not taken'
+      );
     }
 
-    return { isForwarding: false };
+    return [reads, results.join(', ')].filter(Boolean).join(' → ');
   };
 
-  // Check if a cell is in the current active column
-  const isInCurrentColumn = (cycleNum: number): boolean => {
-    return cycleNum === cycle;
-  };
+  // Use maxCycles for the number of columns if it's calculated, otherwise 0
+  const totalCyclesToDisplay = maxCycles > 0 ? maxCycles : 0;
+  const cycleNumbers = Array.from(
+    { length: totalCyclesToDisplay },
+    (_, i) => i + 1
+  );
 
-  // Determine current stage and cell state
+  // Contents of a cell, from the trace computed when the simulation started
   const getCellState = (instIndex: number, cycleNum: number) => {
-    const precedingStalls = calculatePrecedingStalls(instIndex);
-
-    if (stallsEnabled && isStallCell(instIndex, cycleNum)) {
-      return {
-        type: 'stall',
-        stage: null,
-        isCurrentCell: isInCurrentColumn(cycleNum),
-      };
-    }
-
-    const expectedStageIndex = cycleNum - instIndex - 1 - precedingStalls;
-    const currentStageIndex = instructionStages[instIndex];
-
-    const isInPipeline =
-      expectedStageIndex >= 0 && expectedStageIndex < STAGES.length;
-    const stageData = isInPipeline ? STAGES[expectedStageIndex] : null;
-
-    const { isForwarding, forwardingInfo } = getForwardingInfo(
-      instIndex,
-      cycleNum
-    );
-
-    const isCurrentCell =
-      currentStageIndex !== null &&
-      expectedStageIndex === currentStageIndex &&
-      cycleNum === cycle;
-
-    if (isForwarding) {
-      return {
-        type: 'forwarding',
-        stage: stageData,
-        isCurrentCell: isCurrentCell || isInCurrentColumn(cycleNum),
-        forwardingInfo,
-      };
+    const cell = trace[cycleNum - 1]?.cells[instIndex];
+    switch (cell?.kind) {
+      case 'stall':
+        return { type: 'stall', stage: null };
+      case 'flush':
+        return { type: 'flush', stage: null };
+      case 'stage':
+        return {
+          type: cell.forwards.length > 0 ? 'forwarding' : 'normal',
+          stage: cell.stage !== null ? STAGES[cell.stage] : null,
+        };
+      default:
+        return { type: 'empty', stage: null };
     }
-
-    return {
-      type: isInPipeline ? 'normal' : 'empty',
-      stage: stageData,
-      isCurrentCell: isCurrentCell || isInCurrentColumn(cycleNum),
-    };
   };
 
   return (
     <Card className='w-full overflow-hidden'>
-      <CardHeader>
+      <CardHeader className='flex flex-row items-center justify-between space-y-0'>
         <CardTitle>
           Pipeline Progress
           {!stallsEnabled && (
@@ -166,9 +259,76 @@ export function PipelineVisualization() {
             </span>
           )}
         </CardTitle>
+        <div className='flex items-center gap-4'>
+          {forwardingEnabled && stallsEnabled && (
+            <div className='flex items-center space-x-2'>
+              <Switch
+                id='forwarding-arrows'
+                checked={showForwardingArrows}
+                onCheckedChange={setShowForwardingArrows}
+              />
+              <Label htmlFor='forwarding-arrows' className='text-sm'>
+                Forwarding arrows
+              </Label>
+            </div>
+          )}
+          {/* Register naming toggle for the decoded instructions */}
+          <div className='flex items-center space-x-2'>
+            <Switch
+              id='abi-register-names'
+              checked={registerNames === 'abi'}
+              onCheckedChange={(checked) =>
+                setRegisterNames(checked ? 'abi' : 'numeric')
+              }
+            />
+            <Label htmlFor='abi-register-names' className='text-sm'>
+              ABI register names
+            </Label>
+          </div>
+        </div>
       </CardHeader>
       <CardContent>
-        <div className='overflow-x-auto'>
+        <div ref={tableRef} className='relative overflow-x-auto'>
+          {/* Forwarding arrows, drawn under the sticky columns */}
+          {forwardingArrows.length > 0 && (
+            <svg
+              className='absolute top-0 left-0 z-[5] pointer-events-none'
+              width={overlaySize.width}
+              height={overlaySize.height}
+            >
+              <defs>
+                {Object.entries(FORWARDING_PATH_COLORS).map(([path, color]) => (
+                  <marker
+                    key={path}
+                    id={`forwarding-${path}`}
+                    viewBox='0 0 10 10'
+                    refX='10'
+                    refY='5'
+                    markerWidth='5'
+                    markerHeight='5'
+                    orient='auto'
+                  >
+                    <path d='M 0 0 L 10 5 L 0 10 z' fill={color} />
+                  </marker>
+                ))}
+              </defs>
+              {forwardingArrows.map((arrow) => (
+                <path
+                  key={arrow.key}
+                  d={`M ${arrow.x1} ${arrow.y1} C ${arrow.x1 + 24} ${
+                    arrow.y1
+                  }, ${arrow.x2 - 24} ${arrow.y2}, ${arrow.x2} ${arrow.y2}`}
+                  fill='none'
+                  stroke={FORWARDING_PATH_COLORS[arrow.path]}
+                  strokeWidth={arrow.isCurrent ? 3 : 2}
+                  opacity={arrow.isCurrent ? 1 : 0.6}
+                  markerEnd={`url(#forwarding-${arrow.path})`}
+                >
+                  <title>{arrow.label}</title>
+                </path>
+              ))}
+            </svg>
+          )}
           <Table className='min-w-max'>
             <TableCaption>
               MIPS instruction pipeline visualization
@@ -176,7 +336,7 @@ export function PipelineVisualization() {
             </TableCaption>
             <TableHeader>
               <TableRow>
-                <TableHead className='w-[120px] sticky bg-card z-10 border-r'>
+                <TableHead className='w-[200px] sticky bg-card z-10 border-r'>
                   Instruction
                 </TableHead>
                 <TableHead className='w-[240px] sticky bg-card z-10 border-r'>
@@ -190,161 +350,340 @@ export function PipelineVisualization() {
               </TableRow>
             </TableHeader>
             <TableBody>
-              {instructions.map((inst, instIndex) => (
-                <TableRow key={`inst-${instIndex}`} className='h-24'>
-                  <TableCell className='font-mono sticky left-0 bg-card z-10 border-r'>
-                    {inst}
-                    {registerUsage[instIndex] && (
-                      <div className='text-xs text-muted-foreground mt-1'>
-                        {registerUsage[instIndex].type}-type
-                        {registerUsage[instIndex].isLoad && ' (Load)'}: rs=$
-                        {registerUsage[instIndex].rs}, rt=$
-                        {registerUsage[instIndex].rt}
-                        {registerUsage[instIndex].rd !== 0 &&
-                          `, rd=$${registerUsage[instIndex].rd}`}
-                      </div>
+              {instructions.map((inst, instIndex) => {
+                const fetch = fetches[instIndex];
+                const address = fetch.address;
+                const source = program?.sourceMap[(address - TEXT_BASE) / 4];
+                const isFlushed = fetch.flushedBy !== undefined;
+                const branchTaken = fetch.record?.branchTaken;
+                const prediction = fetch.prediction;
+                const isSelected = selectedInstruction === instIndex;
+
+                return (
+                  <TableRow
+                    key={`inst-${instIndex}`}
+                    data-row={instIndex}
+                    className={cn(
+                      'h-24',
+                      isSelected && 'bg-blue-50 dark:bg-blue-950/40'
                     )}
-                  </TableCell>
-
-                  {/* Hazard information or instruction type */}
-                  <TableCell className='sticky left-[120px] bg-card z-10 border-r'>
-                    {stallsEnabled
-                      ? // Show hazard info when stalls are enabled
-                        hazards[instIndex]?.type !== 'NONE' && (
-                          <div className='flex flex-col gap-1 items-start'>
-                            <div className='flex items-start gap-1'>
-                              <Badge
-                                className={cn(
-                                  hazards[instIndex].type === 'RAW'
-                                    ? 'border-red-500 bg-red-100 text-red-500'
-                                    : 'border-yellow-500 bg-yellow-100 text-yellow-500',
-                                  'px-2 border-[1px] rounded-lg'
-                                )}
-                              >
-                                {hazards[instIndex].type}
-                              </Badge>
-                              {hazards[instIndex].canForward &&
-                                forwardings[instIndex]?.length > 0 && (
+                  >
+                    <TableCell
+                      className={cn(
+                        'font-mono sticky left-0 bg-card z-10 border-r cursor-pointer',
+                        isFlushed && 'text-muted-foreground',
+                        isSelected && 'bg-blue-50 dark:bg-blue-950',
+                        fetch.isDelaySlot && 'border-l-4 border-l-teal-500'
+                      )}
+                      onClick={() =>
+                        selectInstruction(isSelected ? null : instIndex)
+                      }
+                      aria-selected={isSelected}
+                    >
+                      {symbols[address] && (
+                        <div className='text-xs text-blue-600'>
+                          {symbols[address]}:
+                        </div>
+                      )}
+                      <div
+                        className={cn(
+                          'whitespace-nowrap',
+                          isFlushed && 'line-through'
+                        )}
+                      >
+                        {disassemble(inst, {
+                          registerNames,
+                          pc: address,
+                          symbols,
+                        })}
+                      </div>
+                      <div className='text-xs text-muted-foreground'>
+                        {inst}
+                      </div>
+                      {/* Source line this word was assembled from */}
+                      {source && (
+                        <div className='flex items-center gap-1 text-xs text-muted-foreground whitespace-nowrap'>
+                          <span>
+                            L{source.line}: {source.source}
+                          </span>
+                          {source.pseudo && (
+                            <Badge className='px-1 py-0 border-[1px] bg-purple-100 text-purple-500 border-purple-500 rounded-lg'>
+                              pseudo
+                            </Badge>
+                          )}
+                        </div>
+                      )}
+                      {registerUsage[instIndex] && (
+                        <div className='text-xs text-muted-foreground mt-1'>
+                          {registerUsage[instIndex].type}-type
+                          {registerUsage[instIndex].isLoad && ' (Load)'}: reads{' '}
+                          {formatOperands(registerUsage[instIndex].reads)}
+                          {registerUsage[instIndex].writes.length > 0 &&
+                            `, writes ${formatOperands(
+                              registerUsage[instIndex].writes
+                            )}`}
+                        </div>
+                      )}
+                      {/* Values computed by the functional core so far */}
+                      {executions[instIndex] && (
+                        <div className='text-xs text-blue-600 mt-1 whitespace-nowrap'>
+                          {describeExecution(executions[instIndex])}
+                        </div>
+                      )}
+                    </TableCell>
+
+                    {/* Hazard information or instruction type */}
+                    <TableCell className='sticky left-[200px] bg-card z-10 border-r'>
+                      {/* Control flow: taken transfers redirect the fetch and
+                        flush the wrong-path rows fetched after them */}
+                      {fetch.isDelaySlot && (
+                        <div className='flex flex-col gap-1 items-start mb-1'>
+                          <Badge className='px-2 border-[1px] bg-teal-100 text-teal-600 border-teal-500 rounded-lg'>
+                            DELAY SLOT
+                          </Badge>
+                          <span className='text-xs text-muted-foreground'>
+                            Always executes after the preceding transfer
+                          </span>
+                        </div>
+                      )}
+                      {isFlushed && (
+                        <div className='flex flex-col gap-1 items-start mb-1'>
+                          <Badge className='px-2 border-[1px] bg-gray-100 text-gray-500 border-gray-500 rounded-lg'>
+                            FLUSHED
+                          </Badge>
+                          <span className='text-xs text-muted-foreground'>
+                            Wrong path after instruction {fetch.flushedBy}
+                          </span>
+                        </div>
+                      )}
+                      {branchTaken !== undefined && (
+                        <div className='flex items-start gap-1 mb-1'>
+                          <Badge
+                            className={cn(
+                              branchTaken
+                                ? 'border-orange-500 bg-orange-100 text-orange-500'
+                                : 'border-blue-500 bg-blue-100 text-blue-500',
+                              'px-2 border-[1px] rounded-lg'
+                            )}
+                          >
+                            {branchTaken ? 'TAKEN' : 'NOT TAKEN'}
+                          </Badge>
+                          {/* Outcome of the branch prediction */}
+                          {prediction && (
+                            <Badge
+                              className={cn(
+                                prediction.correct
+                                  ? 'border-green-500 bg-green-100 text-green-500'
+                                  : 'border-red-500 bg-red-100 text-red-500',
+                                'px-2 border-[1px] rounded-lg'
+                              )}
+                              title={`Predicted ${
+                                prediction.taken ? 'taken' : 'not taken'
+                              }`}
+                            >
+                              {prediction.correct
+                                ? 'PREDICTED'
+                                : 'MISPREDICTED'}{' '}
+                              ({prediction.taken ? 'T' : 'NT'})
+                            </Badge>
+                          )}
+                        </div>
+                      )}
+                      {stallsEnabled
+                        ? // Show hazard info when stalls are enabled
+                          hazards[instIndex]?.type !== 'NONE' && (
+                            <div className='flex flex-col gap-1 items-start'>
+                              <div className='flex items-start gap-1'>
+                                <Badge
+                                  className={cn(
+                                    hazards[instIndex].type === 'RAW'
+                                      ? 'border-red-500 bg-red-100 text-red-500'
+                                      : hazards[instIndex].type === 'WAR'
+                                      ? 'border-orange-500 bg-orange-100 text-orange-500'
+                                      : 'border-yellow-500 bg-yellow-100 text-yellow-500',
+                                    'px-2 border-[1px] rounded-lg'
+                                  )}
+                                >
+                                  {hazards[instIndex].type}
+                                </Badge>
+                                {forwardings[instIndex]?.length > 0 && (
                                   <Badge className='border px-2 bg-green-100 text-green-500 border-green-500 rounded-lg'>
                                     FORWARDING
                                   </Badge>
                                 )}
-                              {stalls[instIndex] > 0 && (
-                                <Badge className='border px-2 bg-red-100 text-red-500 border-red-500 rounded-lg'>
-                                  STALL ({stalls[instIndex]})
-                                </Badge>
-                              )}
-                            </div>
+                                {stalls[instIndex] > 0 && (
+                                  <Badge className='border px-2 bg-red-100 text-red-500 border-red-500 rounded-lg'>
+                                    STALL ({stalls[instIndex]})
+                                  </Badge>
+                                )}
+                              </div>
 
-                            {hazards[instIndex].canForward &&
-                              forwardings[instIndex]?.length > 0 && (
+                              {forwardings[instIndex]?.length > 0 && (
                                 <div className='flex items-center gap-1'>
-                                  {forwardings[instIndex].map((fw, idx) => (
+                                  {forwardings[instIndex].map((fw) => (
                                     <span
-                                      key={idx}
+                                      key={`${fw.from}-${fw.register}-${fw.path}`}
                                       className='text-xs border px-2 bg-black/1 text-black border-black/50 rounded-lg'
                                     >
-                                      {fw.fromStage} {fw.register} →{' '}
-                                      {fw.toStage}
+                                      {fw.register}{' '}
+                                      {forwardingPathLabel(fw.path)}
                                     </span>
                                   ))}
                                 </div>
                               )}
-                          </div>
-                        )
-                      : // Show instruction type when stalls are disabled
-                        registerUsage[instIndex] && (
-                          <div className='flex flex-col gap-1'>
-                            <Badge className='w-fit px-2 border-[1px] bg-blue-100 text-blue-500 border-blue-500 rounded-lg'>
-                              {registerUsage[instIndex].type}-TYPE
-                            </Badge>
-                            {registerUsage[instIndex].isLoad && (
-                              <Badge className='w-fit px-2 border-[1px] bg-purple-100 text-purple-500 border-purple-500 rounded-lg'>
-                                LOAD
-                              </Badge>
-                            )}
-                          </div>
-                        )}
-                  </TableCell>
-
-                  {cycleNumbers.map((c) => {
-                    const cellState = getCellState(instIndex, c);
-
-                    const isActiveColumn = c === cycle;
-                    const hasContent = cellState.type !== 'empty';
-
-                    const cellStyle =
-                      cellState.type === 'stall'
-                        ? 'bg-red-100 dark:bg-red-900/30 text-red-600 dark:text-red-400'
-                        : cellState.type === 'forwarding'
-                        ? 'bg-green-100 dark:bg-green-900/30 text-green-600 dark:text-green-400'
-                        : cellState.type === 'normal'
-                        ? 'bg-secondary text-secondary-foreground'
-                        : 'bg-background';
-
-                    const animationClass =
-                      isActiveColumn && hasContent && isRunning && !isFinished
-                        ? cellState.type === 'stall'
-                          ? 'animate-pulse-bg-red'
-                          : cellState.type === 'forwarding'
-                          ? 'animate-pulse-bg-green'
-                          : 'animate-pulse-bg'
-                        : '';
-
-                    const highlightClass =
-                      isActiveColumn && hasContent
-                        ? cellState.type === 'stall'
-                          ? 'bg-red-200 dark:bg-red-800/50'
-                          : cellState.type === 'forwarding'
-                          ? 'bg-green-200 dark:bg-green-800/50'
-                          : 'bg-accent text-accent-foreground'
-                        : '';
-
-                    return (
-                      <TableCell
-                        key={`inst-${instIndex}-cycle-${c}`}
-                        className={cn(
-                          'text-center w-16 h-14 transition-colors duration-300',
-                          cellStyle,
-                          isActiveColumn ? highlightClass : '',
-                          animationClass
-                        )}
-                      >
-                        {/* Stall indicator */}
-                        {cellState.type === 'stall' && (
-                          <div className='flex flex-col items-center justify-center'>
-                            <AlertTriangle className='w-4 h-4 mb-1 text-red-500' />
-                            <span className='text-xs font-semibold'>STALL</span>
-                          </div>
-                        )}
 
-                        {/* Normal stage indicator */}
-                        {cellState.type === 'normal' && cellState.stage && (
-                          <div className='flex flex-col items-center justify-center'>
-                            <cellState.stage.icon className='w-4 h-4 mb-1' />
-                            <span className='text-xs'>
-                              {cellState.stage.name}
+                              {/* Producer, distance and resolution */}
+                              <span className='text-xs text-muted-foreground'>
+                                {hazards[instIndex].description}
+                              </span>
+                            </div>
+                          )
+                        : // Show instruction type when stalls are disabled
+                          registerUsage[instIndex] && (
+                            <div className='flex flex-col gap-1'>
+                              <Badge className='w-fit px-2 border-[1px] bg-blue-100 text-blue-500 border-blue-500 rounded-lg'>
+                                {registerUsage[instIndex].type}-TYPE
+                              </Badge>
+                              {registerUsage[instIndex].isLoad && (
+                                <Badge className='w-fit px-2 border-[1px] bg-purple-100 text-purple-500 border-purple-500 rounded-lg'>
+                                  LOAD
+                                </Badge>
+                              )}
+                            </div>
+                          )}
+
+                      {/* All dependencies on older instructions; the ones
+                          that cannot cause a hazard in this model are dimmed */}
+                      {dependencies[instIndex]?.length > 0 && (
+                        <div className='flex flex-wrap gap-1 mt-1'>
+                          {dependencies[instIndex].map((dependency, idx) => (
+                            <span
+                              key={idx}
+                              className={cn(
+                                'text-xs border px-1 rounded',
+                                !dependency.matters &&
+                                  'opacity-50 border-dashed',
+                                dependency.type === 'RAW'
+                                  ? 'text-red-600 border-red-400'
+                                  : dependency.type === 'WAR'
+                                  ? 'text-orange-600 border-orange-400'
+                                  : 'text-yellow-600 border-yellow-400'
+                              )}
+                              title={`${
+                                dependency.kind === 'true'
+                                  ? 'True dependency'
+                                  : 'Name dependency'
+                              } on instruction ${dependency.from}${
+                                dependency.matters
+                                  ? ''
+                                  : ' (cannot cause a hazard in this pipeline)'
+                              }`}
+                            >
+                              {dependency.type}{' '}
+                              {formatLocation(
+                                dependency.location,
+                                registerNames
+                              )}{' '}
+                              ← {dependency.from}
                             </span>
-                          </div>
-                        )}
+                          ))}
+                        </div>
+                      )}
+                    </TableCell>
+
+                    {cycleNumbers.map((c) => {
+                      const cellState = getCellState(instIndex, c);
+
+                      const isActiveColumn = c === cycle;
+                      const hasContent = cellState.type !== 'empty';
+
+                      const cellStyle =
+                        cellState.type === 'stall'
+                          ? 'bg-red-100 dark:bg-red-900/30 text-red-600 dark:text-red-400'
+                          : cellState.type === 'flush'
+                          ? 'bg-gray-100 dark:bg-gray-800/50 text-gray-400'
+                          : cellState.type === 'forwarding'
+                          ? 'bg-green-100 dark:bg-green-900/30 text-green-600 dark:text-green-400'
+                          : cellState.type === 'normal'
+                          ? 'bg-secondary text-secondary-foreground'
+                          : 'bg-background';
+
+                      const animationClass =
+                        isActiveColumn && hasContent && isRunning && !isFinished
+                          ? cellState.type === 'stall'
+                            ? 'animate-pulse-bg-red'
+                            : cellState.type === 'forwarding'
+                            ? 'animate-pulse-bg-green'
+                            : 'animate-pulse-bg'
+                          : '';
+
+                      const highlightClass =
+                        isActiveColumn && hasContent
+                          ? cellState.type === 'stall'
+                            ? 'bg-red-200 dark:bg-red-800/50'
+                            : cellState.type === 'forwarding'
+                            ? 'bg-green-200 dark:bg-green-800/50'
+                            : 'bg-accent text-accent-foreground'
+                          : '';
+
+                      return (
+                        <TableCell
+                          key={`inst-${instIndex}-cycle-${c}`}
+                          data-cell={`${instIndex}:${c}`}
+                          className={cn(
+                            'text-center w-16 h-14 transition-colors duration-300',
+                            cellStyle,
+                            isActiveColumn ? highlightClass : '',
+                            animationClass
+                          )}
+                        >
+                          {/* Stall indicator */}
+                          {cellState.type === 'stall' && (
+                            <div className='flex flex-col items-center justify-center'>
+                              <AlertTriangle className='w-4 h-4 mb-1 text-red-500' />
+                              <span className='text-xs font-semibold'>
+                                STALL
+                              </span>
+                            </div>
+                          )}
 
-                        {/* Forwarding indicator */}
-                        {cellState.type === 'forwarding' && cellState.stage && (
-                          <div className='flex flex-col items-center justify-center'>
-                            <div className='flex items-center justify-center mb-1 gap-1'>
-                              <cellState.stage.icon className='w-4 h-4' />
-                              <Zap className='w-3 h-3 text-green-500' />
+                          {/* Bubble left by a flushed instruction */}
+                          {cellState.type === 'flush' && (
+                            <div className='flex flex-col items-center justify-center'>
+                              <XCircle className='w-4 h-4 mb-1' />
+                              <span className='text-xs'>FLUSH</span>
                             </div>
-                            <span className='text-xs'>
-                              {cellState.stage.name}
-                            </span>
-                          </div>
-                        )}
-                      </TableCell>
-                    );
-                  })}
-                </TableRow>
-              ))}
+                          )}
+
+                          {/* Normal stage indicator */}
+                          {cellState.type === 'normal' && cellState.stage && (
+                            <div className='flex flex-col items-center justify-center'>
+                              <cellState.stage.icon className='w-4 h-4 mb-1' />
+                              <span className='text-xs'>
+                                {cellState.stage.name}
+                              </span>
+                            </div>
+                          )}
+
+                          {/* Forwarding indicator */}
+                          {cellState.type === 'forwarding' &&
+                            cellState.stage && (
+                              <div className='flex flex-col items-center justify-center'>
+                                <div className='flex items-center justify-center mb-1 gap-1'>
+                                  <cellState.stage.icon className='w-4 h-4' />
+                                  <Zap className='w-3 h-3 text-green-500' />
+                                </div>
+                                <span className='text-xs'>
+                                  {cellState.stage.name}
+                                </span>
+                              </div>
+                            )}
+                        </TableCell>
+                      );
+                    })}
+                  </TableRow>
+                );
+              })}
             </TableBody>
           </Table>
         </div>
@@ -359,6 +698,18 @@ export function PipelineVisualization() {
             <div className='w-4 h-4 bg-secondary mr-2 rounded-sm'></div>
             <span>Completed Stage</span>
           </div>
+          {Object.values(dependencies).some((list) => list.length > 0) && (
+            <div className='flex items-center'>
+              <div className='w-4 h-4 border border-dashed border-muted-foreground opacity-50 mr-2 rounded-sm'></div>
+              <span>Dependency without hazard in this model</span>
+            </div>
+          )}
+          {fetches.some((fetch) => fetch.flushedBy !== undefined) && (
+            <div className='flex items-center'>
+              <div className='w-4 h-4 bg-gray-100 dark:bg-gray-800/50 mr-2 rounded-sm'></div>
+              <span>Flushed</span>
+            </div>
+          )}
           {stallsEnabled && (
             <>
               <div className='flex items-center'>
@@ -371,6 +722,20 @@ export function PipelineVisualization() {
               </div>
             </>
           )}
+          {forwardingArrows.length > 0 &&
+            Object.entries(FORWARDING_PATH_COLORS)
+              .filter(([path]) =>
+                forwardingArrows.some((arrow) => arrow.path === path)
+              )
+              .map(([path, color]) => (
+                <div key={path} className='flex items-center'>
+                  <div
+                    className='w-4 h-0.5 mr-2'
+                    style={{ background: color }}
+                  ></div>
+                  <span>{forwardingPathLabel(path as ForwardingPath)}</span>
+                </div>
+              ))}
         </div>
       </CardContent>
     </Card>
@@ -0,0 +1,143 @@
+'use client';
+
+import type * as React from 'react';
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Slider } from '@/components/ui/slider';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ChevronFirst, ChevronLast, StepBack, StepForward } from 'lucide-react';
+import {
+  useSimulationActions,
+  useSimulationState,
+  type PlaybackSpeed,
+} from '@/context/SimulationContext';
+
+const PLAYBACK_SPEEDS: PlaybackSpeed[] = [0.25, 0.5, 1, 2, 5, 10, 'instant'];
+
+const formatSpeed = (speed: PlaybackSpeed) =>
+  speed === 'instant' ? 'Instant' : `${speed}x`;
+
+export function PlaybackControls() {
+  const { currentCycle, maxCycles, isFinished, playbackSpeed } =
+    useSimulationState();
+  const { stepForward, stepBackward, goToCycle, setPlaybackSpeed } =
+    useSimulationActions();
+
+  const [cycleText, setCycleText] = useState<string>(String(currentCycle));
+
+  // Follow the clock and the step buttons
+  useEffect(() => {
+    setCycleText(String(currentCycle));
+  }, [currentCycle]);
+
+  const handleCycleSubmit = () => {
+    const cycle = parseInt(cycleText, 10);
+    if (Number.isNaN(cycle)) {
+      setCycleText(String(currentCycle));
+      return;
+    }
+    goToCycle(cycle);
+  };
+
+  const isFirst = currentCycle <= 1;
+  const isLast = isFinished || currentCycle >= maxCycles;
+
+  return (
+    <div className='space-y-4'>
+      {/* Timeline scrubber over the simulated cycles */}
+      <Slider
+        min={1}
+        max={Math.max(1, maxCycles)}
+        step={1}
+        value={[currentCycle]}
+        onValueChange={([cycle]) => goToCycle(cycle)}
+        aria-label='Timeline'
+      />
+
+      <div className='flex flex-wrap items-center justify-center gap-2'>
+        <Button
+          variant='outline'
+          size='icon'
+          onClick={() => goToCycle(1)}
+          disabled={isFirst}
+          aria-label='First Cycle'
+        >
+          <ChevronFirst className='w-4 h-4' />
+        </Button>
+        <Button
+          variant='outline'
+          size='icon'
+          onClick={stepBackward}
+          disabled={isFirst}
+          aria-label='Step Backward'
+        >
+          <StepBack className='w-4 h-4' />
+        </Button>
+
+        {/* Go to cycle N */}
+        <div className='flex items-center gap-2 text-sm text-muted-foreground'>
+          <span>Cycle</span>
+          <Input
+            type='number'
+            min={1}
+            max={maxCycles}
+            value={cycleText}
+            onChange={(e) => setCycleText(e.target.value)}
+            onBlur={handleCycleSubmit}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') handleCycleSubmit();
+            }}
+            className='h-9 w-20 text-center'
+            aria-label='Go to Cycle'
+          />
+          <span>/ {maxCycles}</span>
+        </div>
+
+        <Button
+          variant='outline'
+          size='icon'
+          onClick={stepForward}
+          disabled={isLast}
+          aria-label='Step Forward'
+        >
+          <StepForward className='w-4 h-4' />
+        </Button>
+        <Button
+          variant='outline'
+          size='icon'
+          onClick={() => goToCycle(maxCycles)}
+          disabled={isLast}
+          aria-label='Last Cycle'
+        >
+          <ChevronLast className='w-4 h-4' />
+        </Button>
+
+        {/* Clock speed */}
+        <Select
+          value={String(playbackSpeed)}
+          onValueChange={(value) =>
+            setPlaybackSpeed(value === 'instant' ? 'instant' : Number(value))
+          }
+        >
+          <SelectTrigger className='h-9 w-28' aria-label='Simulation Speed'>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {PLAYBACK_SPEEDS.map((speed) => (
+              <SelectItem key={speed} value={String(speed)}>
+                {formatSpeed(speed)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,226 @@
+'use client';
+
+import type * as React from 'react';
+import { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { RotateCcw } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import {
+  useSimulationActions,
+  useSimulationState,
+} from '@/context/SimulationContext';
+import { parseImmediate } from '@/lib/mips/assembler';
+import type { OperandLocation } from '@/lib/mips/operands';
+import { isFlushed, STAGE_NAMES } from '@/lib/mips/pipeline';
+import { formatRegister } from '@/lib/mips/registers';
+
+const ID_STAGE = STAGE_NAMES.indexOf('ID');
+const EX_STAGE = STAGE_NAMES.indexOf('EX');
+const WB_STAGE = STAGE_NAMES.indexOf('WB');
+
+const toHex = (value: number) =>
+  `0x${(value >>> 0).toString(16).padStart(8, '0')}`;
+
+export function RegisterFile() {
+  const {
+    currentCycle,
+    machine,
+    initialRegisters,
+    instructionStages,
+    fetches,
+    executions,
+    registerUsage,
+    registerNames,
+  } = useSimulationState();
+  const { setInitialRegister, resetInitialRegisters } = useSimulationActions();
+
+  // Text being typed into the initial value fields, by register number
+  const [drafts, setDrafts] = useState<Record<number, string>>({});
+
+  const hasStarted = currentCycle > 0;
+  // Initial values can only be edited before the simulation starts
+  const isEditable = !hasStarted;
+  const registers = hasStarted ? machine.registers : initialRegisters;
+
+  // Registers written back this cycle, and registers with a write still in
+  // flight (ID, EX or MEM) that the register file does not show yet,
+  // including HI and LO
+  const writtenRegisters = new Set<OperandLocation>();
+  const pendingRegisters = new Set<OperandLocation>();
+  if (hasStarted) {
+    Object.entries(instructionStages).forEach(([key, stage]) => {
+      const index = Number(key);
+      // Wrong-path instructions are squashed and never write
+      if (stage === null || isFlushed(fetches[index])) return;
+      const execution = executions[index];
+      const destinations: (OperandLocation | undefined)[] =
+        stage >= EX_STAGE
+          ? [
+              execution?.write?.register,
+              execution?.hi !== undefined ? 'hi' : undefined,
+              execution?.lo !== undefined ? 'lo' : undefined,
+            ]
+          : [
+              registerUsage[index]?.rd,
+              ...(registerUsage[index]?.writes ?? [])
+                .map(({ location }) => location)
+                .filter((location) => location === 'hi' || location === 'lo'),
+            ];
+      destinations.forEach((destination) => {
+        if (!destination) return;
+        if (stage === WB_STAGE) {
+          writtenRegisters.add(destination);
+        } else if (stage >= ID_STAGE) {
+          pendingRegisters.add(destination);
+        }
+      });
+    });
+  }
+
+  // Green once written back, yellow while a write is still in flight
+  const writeHighlight = (location: OperandLocation) =>
+    writtenRegisters.has(location)
+      ? 'bg-green-100 text-green-700 dark:bg-green-900/30'
+      : pendingRegisters.has(location) &&
+        'bg-yellow-100 text-yellow-700 dark:bg-yellow-900/30';
+
+  const commitDraft = (register: number) => {
+    const draft = drafts[register];
+    if (draft === undefined) return;
+    const value = parseImmediate(draft);
+    if (value === null || value < -0x80000000 || value > 0xffffffff) {
+      return; // Keep the invalid text so it can be corrected
+    }
+    setInitialRegister(register, value);
+    setDrafts(({ [register]: _, ...rest }) => rest);
+  };
+
+  return (
+    <Card className='w-full'>
+      <CardHeader className='flex flex-row items-center justify-between space-y-0'>
+        <CardTitle className='text-lg'>
+          Register File
+          {hasStarted && (
+            <span className='ml-2 text-sm font-normal text-muted-foreground'>
+              (cycle {currentCycle})
+            </span>
+          )}
+        </CardTitle>
+        {isEditable && (
+          <Button
+            variant='outline'
+            size='icon'
+            onClick={() => {
+              resetInitialRegisters();
+              setDrafts({});
+            }}
+            aria-label='Reset Initial Register Values'
+          >
+            <RotateCcw className='w-4 h-4' />
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className='space-y-3'>
+        {isEditable && (
+          <p className='text-xs text-muted-foreground'>
+            Initial values used when the simulation starts (decimal or 0x hex).
+          </p>
+        )}
+
+        <div className='grid grid-cols-1 gap-1 font-mono text-sm'>
+          {registers.map((value, register) => {
+            const draft = drafts[register];
+            const isInvalid =
+              draft !== undefined && parseImmediate(draft) === null;
+
+            return (
+              <div
+                key={`register-${register}`}
+                className={cn(
+                  'flex items-center justify-between gap-2 px-2 py-0.5 rounded transition-colors duration-300',
+                  writeHighlight(register)
+                )}
+                title={`${value | 0}`}
+              >
+                <span className='w-16'>
+                  {formatRegister(register, registerNames)}
+                </span>
+                {isEditable && register !== 0 ? (
+                  <Input
+                    value={draft ?? toHex(value)}
+                    onChange={(e) =>
+                      setDrafts((prev) => ({
+                        ...prev,
+                        [register]: e.target.value,
+                      }))
+                    }
+                    onBlur={() => commitDraft(register)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') commitDraft(register);
+                    }}
+                    className={cn(
+                      'h-7 w-32 px-2 font-mono text-xs',
+                      isInvalid && 'border-destructive'
+                    )}
+                    aria-label={`Initial value of ${formatRegister(
+                      register,
+                      registerNames
+                    )}`}
+                  />
+                ) : (
+                  <span>{toHex(value)}</span>
+                )}
+                <span className='w-24 text-right text-xs text-muted-foreground'>
+                  {value | 0}
+                </span>
+              </div>
+            );
+          })}
+
+          {/* Special registers */}
+          {[
+            {
+              name: 'HI',
+              value: hasStarted ? machine.hi : 0,
+              location: 'hi' as const,
+            },
+            {
+              name: 'LO',
+              value: hasStarted ? machine.lo : 0,
+              location: 'lo' as const,
+            },
+            { name: 'PC', value: machine.pc },
+          ].map(({ name, value, location }) => (
+            <div
+              key={name}
+              className={cn(
+                'flex items-center justify-between gap-2 px-2 py-0.5 border-t transition-colors duration-300',
+                location && writeHighlight(location)
+              )}
+            >
+              <span className='w-16'>{name}</span>
+              <span>{toHex(value)}</span>
+              <span className='w-24 text-right text-xs text-muted-foreground'>
+                {name === 'PC' ? '' : value | 0}
+              </span>
+            </div>
+          ))}
+        </div>
+
+        {hasStarted && (
+          <div className='flex flex-wrap gap-2 text-xs'>
+            <Badge className='px-2 border-[1px] bg-green-100 text-green-700 border-green-500 rounded-lg'>
+              Written in WB
+            </Badge>
+            <Badge className='px-2 border-[1px] bg-yellow-100 text-yellow-700 border-yellow-500 rounded-lg'>
+              Pending write
+            </Badge>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
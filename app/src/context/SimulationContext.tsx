@@ -12,41 +12,41 @@ import {
   type PropsWithChildren,
 } from "react";
 import * as React from "react";
-
-// Define the stage names (optional, but good for clarity)
-const STAGE_NAMES = ["IF", "ID", "EX", "MEM", "WB"] as const;
-type StageName = (typeof STAGE_NAMES)[number];
-
-type InstructionType = "R" | "I" | "J";
-type HazardType = "RAW" | "WAW" | "NONE";
-
-interface RegisterUsage {
-  rs: number;
-  rt: number;
-  rd: number;
-  opcode: number;
-  funct: number;
-  type: InstructionType;
-  isLoad: boolean; // Add this to detect load instructions
-}
-
-interface HazardInfo {
-  type: HazardType;
-  description: string;
-  canForward: boolean;
-  stallCycles: number;
-}
-
-interface ForwardingInfo {
-  from: number;
-  to: number;
-  fromStage: StageName;
-  toStage: StageName;
-  register: string;
-}
-
-interface SimulationState {
-  instructions: string[];
+import type { AssembledProgram } from "@/lib/mips/assembler";
+import type { BranchPredictorKind } from "@/lib/mips/branch-predictor";
+import type { ForwardingPath } from "@/lib/mips/forwarding";
+import {
+  createMachineState,
+  type ExecutionRecord,
+  type MachineState,
+  type Memory,
+} from "@/lib/mips/machine";
+import {
+  simulatePipeline,
+  DEFAULT_PIPELINE_CONFIG,
+  STAGE_NAMES,
+  type BranchResolutionStage,
+  type CycleTrace,
+  type Dependency,
+  type FetchedInstruction,
+  type ForwardingInfo,
+  type HazardInfo,
+  type PipelineConfig,
+  type RegisterUsage,
+} from "@/lib/mips/pipeline";
+import type { RegisterNameStyle } from "@/lib/mips/registers";
+
+// Clock rate as a multiple of one cycle per second, or "instant" to run to
+// the end at once
+export type PlaybackSpeed = number | "instant";
+const BASE_CYCLE_MS = 1000;
+
+// The pipeline design (PipelineConfig) is part of the state, so a restart
+// picks up the latest configuration
+interface SimulationState extends PipelineConfig {
+  instructions: string[]; // Instruction words in fetch order (one per row)
+  fetches: FetchedInstruction[];
+  isTruncated: boolean; // Execution hit MAX_EXECUTED_INSTRUCTIONS
   currentCycle: number;
   maxCycles: number;
   isRunning: boolean;
@@ -58,21 +58,61 @@ interface SimulationState {
   hazards: Record<number, HazardInfo>;
   forwardings: Record<number, ForwardingInfo[]>;
   stalls: Record<number, number>;
+  dependencies: Record<number, Dependency[]>;
 
   currentStallCycles: number;
 
-  forwardingEnabled: boolean;
-  stallsEnabled: boolean; // Add this new option
+  registerNames: RegisterNameStyle; // How registers are shown in the UI
+  playbackSpeed: PlaybackSpeed;
+  selectedInstruction: number | null; // Row selected in the table or graph
+
+  // Source map and labels when the instructions were assembled from source
+  program: AssembledProgram | null;
+
+  // Functional core: register file and memory as seen at currentCycle
+  // (registers are written in WB, memory in MEM)
+  machine: MachineState;
+  executions: Record<number, ExecutionRecord>;
+  executedStages: Record<number, number>; // Last stage whose effects were applied
+
+  initialRegisters: number[]; // Register values loaded by startSimulation
+  initialMemory: Memory; // Memory preloaded by startSimulation
+
+  // The cursor has reached the last cycle at least once; stepping back
+  // afterwards does not make the run unfinished
+  hasCompleted: boolean;
+
+  // Every cycle of the run, computed by startSimulation (trace[cycle - 1]).
+  // Playback only moves currentCycle and shows the matching entry.
+  trace: CycleTrace[];
 }
 
 // Define the shape of the context actions
 interface SimulationActions {
-  startSimulation: (submittedInstructions: string[]) => void;
+  startSimulation: (
+    submittedInstructions: string[],
+    program?: AssembledProgram
+  ) => void;
   resetSimulation: () => void;
   pauseSimulation: () => void;
   resumeSimulation: () => void;
+  stepForward: () => void;
+  stepBackward: () => void;
+  goToCycle: (cycle: number) => void;
+  setPlaybackSpeed: (speed: PlaybackSpeed) => void;
   setForwardingEnabled: (enabled: boolean) => void;
+  setForwardingPaths: (paths: ForwardingPath[]) => void;
+  setSplitCycleRegisterFile: (enabled: boolean) => void;
   setStallsEnabled: (enabled: boolean) => void; // Add this new action
+  setBranchResolutionStage: (stage: BranchResolutionStage) => void;
+  setBranchPredictor: (kind: BranchPredictorKind) => void;
+  setDelaySlotEnabled: (enabled: boolean) => void;
+  setOutOfOrderEnabled: (enabled: boolean) => void;
+  setRegisterNames: (style: RegisterNameStyle) => void;
+  selectInstruction: (index: number | null) => void;
+  setInitialRegister: (register: number, value: number) => void;
+  resetInitialRegisters: () => void;
+  setInitialMemory: (memory: Memory) => void;
 }
 
 // Create the contexts
@@ -87,6 +127,8 @@ const DEFAULT_STAGE_COUNT = STAGE_NAMES.length; // Use length of defined stages
 
 const initialState: SimulationState = {
   instructions: [],
+  fetches: [],
+  isTruncated: false,
   currentCycle: 0,
   maxCycles: 0,
   isRunning: false,
@@ -97,188 +139,41 @@ const initialState: SimulationState = {
   hazards: {},
   forwardings: {},
   stalls: {},
+  dependencies: {},
   currentStallCycles: 0,
-  forwardingEnabled: true,
-  stallsEnabled: true, // Add this new option
-};
-
-const parseInstruction = (hexInstruction: string): RegisterUsage => {
-  const binary = parseInt(hexInstruction, 16).toString(2).padStart(32, "0");
-  const opcode = parseInt(binary.substring(0, 6), 2);
-  const rs = parseInt(binary.substring(6, 11), 2);
-  const rt = parseInt(binary.substring(11, 16), 2);
-
-  let type: InstructionType = "R";
-  let rd = 0;
-  let funct = 0;
-  let isLoad = false;
-
-  if (opcode === 0) {
-    type = "R";
-    rd = parseInt(binary.substring(16, 21), 2);
-    funct = parseInt(binary.substring(26, 32), 2);
-  } else if (opcode === 2 || opcode === 3) {
-    type = "J";
-    rd = opcode === 3 ? 31 : 0;
-    funct = 0;
-  } else {
-    type = "I";
-    // Check for load instructions (lw = 35, lh = 33, lb = 32, etc.)
-    if (opcode >= 32 && opcode <= 37) {
-      rd = rt; // For loads, rt is the destination
-      isLoad = true;
-    } else if (opcode >= 8 && opcode <= 15) {
-      rd = rt; // For immediate arithmetic, rt is the destination
-    } else {
-      rd = 0;
-    }
-  }
-
-  return { rs, rt, rd, opcode, funct, type, isLoad };
-};
-
-const detectHazards = (
-  instructions: string[],
-  registerUsage: Record<number, RegisterUsage>,
-  forwardingEnabled: boolean,
-  stallsEnabled: boolean
-): [
-  Record<number, HazardInfo>,
-  Record<number, ForwardingInfo[]>,
-  Record<number, number>
-] => {
-  const hazards: Record<number, HazardInfo> = {};
-  const forwardings: Record<number, ForwardingInfo[]> = {};
-  const stalls: Record<number, number> = {};
-
-  // Initialize all instructions with no hazard
-  instructions.forEach((_, index) => {
-    hazards[index] = {
-      type: "NONE",
-      description: "No hazard",
-      canForward: false,
-      stallCycles: 0,
-    };
-    forwardings[index] = [];
-    stalls[index] = 0;
-  });
-
-  // If stalls are disabled, skip hazard detection entirely
-  if (!stallsEnabled) {
-    return [hazards, forwardings, stalls];
-  }
-
-  for (let i = 1; i < instructions.length; i++) {
-    const currentInst = registerUsage[i];
-
-    // Skip if current instruction is a jump
-    if (currentInst.type === "J") continue;
-
-    // Only check the immediately previous instruction (distance = 1)
-    const j = i - 1;
-    const prevInst = registerUsage[j];
-
-    // Skip if previous instruction doesn't write to any register
-    if (prevInst.rd === 0) continue;
-
-    // Check for RAW hazards
-    let hasRawHazard = false;
-    let hazardRegister = "";
-
-    if (currentInst.rs === prevInst.rd) {
-      hasRawHazard = true;
-      hazardRegister = `rs($${currentInst.rs})`;
-    } else if (
-      (currentInst.rt === prevInst.rd && currentInst.type !== "I") ||
-      (currentInst.type === "I" && !currentInst.isLoad)
-    ) {
-      // For I-type instructions, rt might be a source (like in store instructions)
-      // or destination (like in load instructions)
-      hasRawHazard = true;
-      hazardRegister = `rt($${currentInst.rt})`;
-    }
-
-    if (hasRawHazard) {
-      if (prevInst.isLoad) {
-        // Load-use hazard: Always needs 1 stall, then can forward from MEM
-        hazards[i] = {
-          type: "RAW",
-          description: `Load-use hazard: ${hazardRegister} depends on lw in instruction ${j}`,
-          canForward: forwardingEnabled,
-          stallCycles: 1,
-        };
-        stalls[i] = 1;
-
-        if (forwardingEnabled) {
-          forwardings[i] = [
-            {
-              from: j,
-              to: i,
-              fromStage: "MEM", // Forward from MEM/WB to EX
-              toStage: "EX",
-              register: `$${prevInst.rd}`,
-            },
-          ];
-        }
-      } else {
-        // Regular RAW hazard
-        if (forwardingEnabled) {
-          // Can forward from EX/MEM to EX, no stall needed
-          hazards[i] = {
-            type: "RAW",
-            description: `RAW hazard: ${hazardRegister} depends on instruction ${j} (forwarded)`,
-            canForward: true,
-            stallCycles: 0,
-          };
-          forwardings[i] = [
-            {
-              from: j,
-              to: i,
-              fromStage: "EX", // Forward from EX/MEM to EX
-              toStage: "EX",
-              register: `$${prevInst.rd}`,
-            },
-          ];
-        } else {
-          // No forwarding: need 2 stalls for complete bubble
-          hazards[i] = {
-            type: "RAW",
-            description: `RAW hazard: ${hazardRegister} depends on instruction ${j} (no forwarding)`,
-            canForward: false,
-            stallCycles: 2,
-          };
-          stalls[i] = 2;
-        }
-      }
-    }
-
-    // Check for WAW hazards (only for instructions that write to the same register)
-    if (
-      currentInst.rd !== 0 &&
-      currentInst.rd === prevInst.rd &&
-      !hasRawHazard
-    ) {
-      hazards[i] = {
-        type: "WAW",
-        description: `WAW hazard: Both instructions write to $${currentInst.rd}`,
-        canForward: true,
-        stallCycles: 0,
-      };
-    }
-  }
-
-  return [hazards, forwardings, stalls];
+  ...DEFAULT_PIPELINE_CONFIG,
+  registerNames: "abi",
+  playbackSpeed: 1,
+  selectedInstruction: null,
+  program: null,
+  machine: createMachineState(),
+  executions: {},
+  executedStages: {},
+  initialRegisters: createMachineState().registers,
+  initialMemory: {},
+  hasCompleted: false,
+  trace: [],
 };
 
-const calculatePrecedingStalls = (
-  stalls: Record<number, number>,
-  index: number
-): number => {
-  let totalStalls = 0;
-  for (let i = 0; i < index; i++) {
-    totalStalls += stalls[i] || 0;
-  }
-  return totalStalls;
+// Moves the playback cursor to `cycle`, clamped to the simulated cycles
+const showCycle = (
+  currentState: SimulationState,
+  cycle: number
+): SimulationState => {
+  if (currentState.trace.length === 0) return currentState;
+  const target = Math.min(Math.max(1, cycle), currentState.trace.length);
+  const cycleTrace = currentState.trace[target - 1];
+  return {
+    ...currentState,
+    currentCycle: target,
+    instructionStages: cycleTrace.instructionStages,
+    isFinished: cycleTrace.isFinished,
+    hasCompleted: currentState.hasCompleted || cycleTrace.isFinished,
+    currentStallCycles: cycleTrace.stallCycles,
+    machine: cycleTrace.machine,
+    executions: cycleTrace.executions,
+    executedStages: cycleTrace.executedStages,
+  };
 };
 
 const calculateNextState = (currentState: SimulationState): SimulationState => {
@@ -286,68 +181,8 @@ const calculateNextState = (currentState: SimulationState): SimulationState => {
     return currentState;
   }
 
-  const nextCycle = currentState.currentCycle + 1;
-  const newInstructionStages: Record<number, number | null> = {};
-  let activeInstructions = 0;
-
-  let newStallCycles = currentState.currentStallCycles;
-  if (newStallCycles > 0) {
-    newStallCycles--;
-    return {
-      ...currentState,
-      currentCycle: nextCycle,
-      instructionStages: currentState.instructionStages,
-      currentStallCycles: newStallCycles,
-    };
-  }
-
-  let totalStallCycles = 0;
-  Object.values(currentState.stalls).forEach((stalls) => {
-    totalStallCycles += stalls;
-  });
-
-  currentState.instructions.forEach((_, index) => {
-    const precedingStalls = calculatePrecedingStalls(
-      currentState.stalls,
-      index
-    );
-    const stageIndex = nextCycle - index - 1 - precedingStalls;
-
-    if (stageIndex >= 0 && stageIndex < currentState.stageCount) {
-      newInstructionStages[index] = stageIndex;
-      activeInstructions++;
-
-      if (
-        stageIndex === 1 &&
-        currentState.stalls[index] > 0 &&
-        newStallCycles === 0
-      ) {
-        newStallCycles = currentState.stalls[index];
-      }
-    } else {
-      newInstructionStages[index] = null;
-    }
-  });
-
-  const completionCycle =
-    currentState.instructions.length > 0
-      ? currentState.instructions.length +
-        currentState.stageCount -
-        1 +
-        totalStallCycles
-      : 0;
-
-  const isFinished = nextCycle > completionCycle;
-  const isRunning = !isFinished;
-
-  return {
-    ...currentState,
-    currentCycle: isFinished ? completionCycle : nextCycle,
-    instructionStages: newInstructionStages,
-    isRunning: isRunning,
-    isFinished: isFinished,
-    currentStallCycles: newStallCycles,
-  };
+  const nextState = showCycle(currentState, currentState.currentCycle + 1);
+  return { ...nextState, isRunning: !nextState.isFinished };
 };
 
 export function SimulationProvider({ children }: PropsWithChildren) {
@@ -366,6 +201,15 @@ export function SimulationProvider({ children }: PropsWithChildren) {
     clearTimer();
     if (!simulationState.isRunning || simulationState.isFinished) return;
 
+    const speed = simulationState.playbackSpeed;
+    if (speed === "instant") {
+      setSimulationState((prevState) => {
+        const lastState = showCycle(prevState, prevState.maxCycles);
+        return { ...lastState, isRunning: !lastState.isFinished };
+      });
+      return;
+    }
+
     intervalRef.current = setInterval(() => {
       setSimulationState((prevState) => {
         const nextState = calculateNextState(prevState);
@@ -374,85 +218,85 @@ export function SimulationProvider({ children }: PropsWithChildren) {
         }
         return nextState;
       });
-    }, 1000);
-  }, [simulationState.isRunning, simulationState.isFinished]);
+    }, BASE_CYCLE_MS / speed);
+  }, [
+    simulationState.isRunning,
+    simulationState.isFinished,
+    simulationState.playbackSpeed,
+  ]);
 
   const resetSimulation = useCallback(() => {
     clearTimer();
     setSimulationState((prevState) => ({
       ...initialState,
       forwardingEnabled: prevState.forwardingEnabled,
+      forwardingPaths: prevState.forwardingPaths,
+      splitCycleRegisterFile: prevState.splitCycleRegisterFile,
       stallsEnabled: prevState.stallsEnabled,
+      branchResolutionStage: prevState.branchResolutionStage,
+      branchPredictor: prevState.branchPredictor,
+      delaySlotEnabled: prevState.delaySlotEnabled,
+      outOfOrderEnabled: prevState.outOfOrderEnabled,
+      registerNames: prevState.registerNames,
+      playbackSpeed: prevState.playbackSpeed,
+      initialRegisters: prevState.initialRegisters,
+      initialMemory: prevState.initialMemory,
     }));
   }, []);
 
   const startSimulation = useCallback(
-    (submittedInstructions: string[]) => {
+    (submittedInstructions: string[], program?: AssembledProgram) => {
       clearTimer(); // Clear previous timer just in case
       if (submittedInstructions.length === 0) {
         resetSimulation(); // Reset if no instructions submitted
         return;
       }
 
-      // Parse instructions to extract register usage
-      const registerUsage: Record<number, RegisterUsage> = {};
-      submittedInstructions.forEach((inst, index) => {
-        registerUsage[index] = parseInstruction(inst);
-      });
-
-      // Detect hazards and determine forwarding/stalls
-      const [hazards, forwardings, stalls] = detectHazards(
-        submittedInstructions,
-        registerUsage,
-        simulationState.forwardingEnabled,
-        simulationState.stallsEnabled
-      );
-
-      // Calculate total stall cycles
-      let totalStallCycles = 0;
-      Object.values(stalls).forEach((stall) => {
-        totalStallCycles += stall;
-      });
-
-      const calculatedMaxCycles =
-        submittedInstructions.length +
-        DEFAULT_STAGE_COUNT -
-        1 +
-        totalStallCycles;
-      const initialStages: Record<number, number | null> = {};
-
-      // Initialize stages for cycle 1
-      submittedInstructions.forEach((_, index) => {
-        const stageIndex = 1 - index - 1; // Calculate stage for cycle 1
-        if (stageIndex >= 0 && stageIndex < DEFAULT_STAGE_COUNT) {
-          initialStages[index] = stageIndex;
-        } else {
-          initialStages[index] = null;
-        }
-      });
-
-      setSimulationState({
-        instructions: submittedInstructions,
-        currentCycle: 1,
-        maxCycles: calculatedMaxCycles,
-        isRunning: true,
-        stageCount: DEFAULT_STAGE_COUNT,
-        instructionStages: initialStages,
-        isFinished: false,
-        registerUsage,
-        hazards,
-        forwardings,
-        stalls,
-        currentStallCycles: 0,
-        forwardingEnabled: simulationState.forwardingEnabled,
-        stallsEnabled: simulationState.stallsEnabled,
+      // Read the configuration from the latest state, so a restart right
+      // after a configuration change uses the new settings
+      setSimulationState((prevState) => {
+        const machine = createMachineState({
+          data: program?.data,
+          registers: prevState.initialRegisters,
+          memory: prevState.initialMemory,
+        });
+
+        // Simulate the whole run, then show its first cycle
+        const {
+          instructions,
+          fetches,
+          isTruncated,
+          registerUsage,
+          hazards,
+          forwardings,
+          stalls,
+          dependencies,
+          totalCycles,
+          trace,
+        } = simulatePipeline(submittedInstructions, machine, prevState);
+
+        const startState: SimulationState = {
+          ...prevState,
+          instructions,
+          fetches,
+          isTruncated,
+          maxCycles: totalCycles,
+          isRunning: true,
+          stageCount: DEFAULT_STAGE_COUNT,
+          registerUsage,
+          hazards,
+          forwardings,
+          stalls,
+          dependencies,
+          selectedInstruction: null,
+          program: program ?? null,
+          hasCompleted: false,
+          trace,
+        };
+        return showCycle(startState, 1);
       });
     },
-    [
-      resetSimulation,
-      simulationState.forwardingEnabled,
-      simulationState.stallsEnabled,
-    ]
+    [resetSimulation]
   );
 
   const pauseSimulation = () => {
@@ -465,6 +309,27 @@ export function SimulationProvider({ children }: PropsWithChildren) {
     });
   };
 
+  // Manual stepping pauses the clock
+  const stepTo = (getCycle: (state: SimulationState) => number) => {
+    clearTimer();
+    setSimulationState((prevState) => ({
+      ...showCycle(prevState, getCycle(prevState)),
+      isRunning: false,
+    }));
+  };
+
+  const stepForward = () => stepTo((state) => state.currentCycle + 1);
+
+  const stepBackward = () => stepTo((state) => state.currentCycle - 1);
+
+  const goToCycle = (cycle: number) => stepTo(() => cycle);
+
+  const setPlaybackSpeed = (speed: PlaybackSpeed) => {
+    setSimulationState((prevState) => {
+      return { ...prevState, playbackSpeed: speed };
+    });
+  };
+
   const resumeSimulation = () => {
     setSimulationState((prevState) => {
       if (
@@ -484,12 +349,85 @@ export function SimulationProvider({ children }: PropsWithChildren) {
     });
   };
 
+  const setForwardingPaths = (paths: ForwardingPath[]) => {
+    setSimulationState((prevState) => {
+      return { ...prevState, forwardingPaths: paths };
+    });
+  };
+
+  const setSplitCycleRegisterFile = (enabled: boolean) => {
+    setSimulationState((prevState) => {
+      return { ...prevState, splitCycleRegisterFile: enabled };
+    });
+  };
+
   const setStallsEnabled = (enabled: boolean) => {
     setSimulationState((prevState) => {
       return { ...prevState, stallsEnabled: enabled };
     });
   };
 
+  const setBranchResolutionStage = (stage: BranchResolutionStage) => {
+    setSimulationState((prevState) => {
+      return { ...prevState, branchResolutionStage: stage };
+    });
+  };
+
+  const setBranchPredictor = (kind: BranchPredictorKind) => {
+    setSimulationState((prevState) => {
+      return { ...prevState, branchPredictor: kind };
+    });
+  };
+
+  const setDelaySlotEnabled = (enabled: boolean) => {
+    setSimulationState((prevState) => {
+      return { ...prevState, delaySlotEnabled: enabled };
+    });
+  };
+
+  const setOutOfOrderEnabled = (enabled: boolean) => {
+    setSimulationState((prevState) => {
+      return { ...prevState, outOfOrderEnabled: enabled };
+    });
+  };
+
+  const setRegisterNames = (style: RegisterNameStyle) => {
+    setSimulationState((prevState) => {
+      return { ...prevState, registerNames: style };
+    });
+  };
+
+  const selectInstruction = (index: number | null) => {
+    setSimulationState((prevState) => {
+      return { ...prevState, selectedInstruction: index };
+    });
+  };
+
+  const setInitialRegister = (register: number, value: number) => {
+    // $zero is hardwired and cannot be changed
+    if (register === 0) return;
+    setSimulationState((prevState) => {
+      const initialRegisters = [...prevState.initialRegisters];
+      initialRegisters[register] = value | 0;
+      return { ...prevState, initialRegisters };
+    });
+  };
+
+  const resetInitialRegisters = () => {
+    setSimulationState((prevState) => {
+      return {
+        ...prevState,
+        initialRegisters: createMachineState().registers,
+      };
+    });
+  };
+
+  const setInitialMemory = (memory: Memory) => {
+    setSimulationState((prevState) => {
+      return { ...prevState, initialMemory: memory };
+    });
+  };
+
   useEffect(() => {
     if (simulationState.isRunning && !simulationState.isFinished) {
       runClock();
@@ -508,8 +446,23 @@ export function SimulationProvider({ children }: PropsWithChildren) {
       resetSimulation,
       pauseSimulation,
       resumeSimulation,
+      stepForward,
+      stepBackward,
+      goToCycle,
+      setPlaybackSpeed,
       setForwardingEnabled,
+      setForwardingPaths,
+      setSplitCycleRegisterFile,
       setStallsEnabled,
+      setBranchResolutionStage,
+      setBranchPredictor,
+      setDelaySlotEnabled,
+      setOutOfOrderEnabled,
+      setRegisterNames,
+      selectInstruction,
+      setInitialRegister,
+      resetInitialRegisters,
+      setInitialMemory,
     }),
     [startSimulation, resetSimulation]
   );
@@ -0,0 +1,29 @@
+// src/lib/mips/assembler.test.ts
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { assemble } from "./assembler";
+import { TEXT_BASE } from "./layout";
+
+describe("assemble", () => {
+  it("pads .align in .text with nops so labels match the emitted code", () => {
+    const { errors, instructions, labels, sourceMap } = assemble(
+      ".text\nnop\n.align 3\nl: j l2\nl2: nop"
+    );
+    assert.deepEqual(errors, []);
+    assert.equal(instructions.length, 4);
+    assert.equal(instructions[1], "00000000");
+    assert.equal(labels.l, TEXT_BASE + 8);
+    assert.equal(labels.l2, TEXT_BASE + 12);
+    // Every word sits at the address its index implies
+    sourceMap.forEach(({ address }, index) =>
+      assert.equal(address, TEXT_BASE + 4 * index)
+    );
+    assert.equal(sourceMap[1].source, ".align 3");
+  });
+
+  it("adds nothing when the text segment is already aligned", () => {
+    const { instructions } = assemble("nop\n.align 2\nnop");
+    assert.equal(instructions.length, 2);
+  });
+});
@@ -0,0 +1,647 @@
+// src/lib/mips/assembler.ts
+
+import {
+  encodeFields,
+  findSpecByMnemonic,
+  toHexWord,
+  type InstructionSpec,
+} from "./isa";
+import { DATA_BASE, TEXT_BASE } from "./layout";
+import { parseRegister } from "./registers";
+
+export interface AssemblyError {
+  line: number; // 1-based source line
+  message: string;
+}
+
+// Where an assembled instruction word came from
+export interface SourceMapEntry {
+  address: number;
+  line: number; // 1-based source line
+  source: string; // Source text of the line, without comments and labels
+  pseudo?: string; // Pseudo-instruction mnemonic, if the word is part of one
+}
+
+export interface AssembledProgram {
+  instructions: string[]; // 8-digit hex words, ready for startSimulation
+  sourceMap: SourceMapEntry[]; // One entry per instruction word
+  labels: Record<string, number>; // Label name -> address
+  data: number[]; // Bytes of the .data segment, starting at DATA_BASE
+}
+
+export interface AssemblyResult extends AssembledProgram {
+  errors: AssemblyError[];
+}
+
+type Segment = "text" | "data";
+
+// A real instruction to encode; pseudo-instructions expand to several
+interface MachineInstruction {
+  mnemonic: string;
+  operands: string[];
+}
+
+interface TextStatement {
+  line: number;
+  source: string;
+  address: number;
+  mnemonic: string; // As written, may be a pseudo-instruction or `.word`
+  operands: string[];
+  expansion: MachineInstruction[];
+}
+
+interface DataStatement {
+  line: number;
+  address: number;
+  directive: string;
+  args: string;
+}
+
+// Context needed to resolve label operands
+interface SymbolContext {
+  address: number; // Address of the instruction being encoded
+  labels: Record<string, number>;
+}
+
+const LABEL_REGEX = /^([A-Za-z_.][\w.$]*)\s*:/;
+
+// Strips a `#` comment, ignoring `#` inside string and character literals
+const stripComment = (line: string): string => {
+  let quote: string | null = null;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quote) {
+      if (char === "\\") i++;
+      else if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === "#") {
+      return line.slice(0, i).trim();
+    }
+  }
+  return line.trim();
+};
+
+const ESCAPES: Record<string, string> = {
+  n: "\n",
+  t: "\t",
+  r: "\r",
+  "0": "\0",
+};
+
+const unescapeString = (text: string): string =>
+  text.replace(/\\(.)/g, (_, char: string) => ESCAPES[char] ?? char);
+
+/**
+ * Parses a numeric literal: decimal (`-8`), hexadecimal (`0x1F`) or a
+ * character (`'a'`). Returns null if the text is not a number.
+ */
+export const parseImmediate = (text: string): number | null => {
+  const value = text.trim();
+  if (/^[-+]?0x[0-9a-f]+$/i.test(value)) {
+    const negative = value.startsWith("-");
+    const magnitude = parseInt(value.replace(/^[-+]?0x/i, ""), 16);
+    return negative ? -magnitude : magnitude;
+  }
+  if (/^[-+]?\d+$/.test(value)) {
+    return parseInt(value, 10);
+  }
+  const charMatch = /^'(\\?.)'$/.exec(value);
+  if (charMatch) {
+    return unescapeString(charMatch[1]).charCodeAt(0);
+  }
+  return null;
+};
+
+const splitOperands = (text: string): string[] => {
+  const normalized = text
+    .trim()
+    .replace(/\s*\(\s*/g, "(")
+    .replace(/\s*\)/g, ")");
+  return normalized === "" ? [] : normalized.split(/\s*,\s*|\s+/);
+};
+
+const isLabelName = (operand: string): boolean =>
+  /^[A-Za-z_.][\w.$]*$/.test(operand);
+
+const expectRegister = (operand: string): number => {
+  const register = parseRegister(operand);
+  if (register === null) {
+    throw new Error(`Invalid register '${operand}'`);
+  }
+  return register;
+};
+
+const checkRange = (
+  value: number,
+  min: number,
+  max: number,
+  what: string,
+  operand: string
+): number => {
+  if (value < min || value > max) {
+    throw new Error(
+      `Value ${operand} out of range for ${what} (${min} to ${max})`
+    );
+  }
+  return value;
+};
+
+const expectNumber = (
+  operand: string,
+  min: number,
+  max: number,
+  what: string
+): number => {
+  const value = parseImmediate(operand);
+  if (value === null) {
+    throw new Error(`Invalid ${what} '${operand}'`);
+  }
+  return checkRange(value, min, max, what, operand);
+};
+
+const resolveLabel = (name: string, symbols?: SymbolContext): number => {
+  if (!symbols || !(name in symbols.labels)) {
+    throw new Error(`Undefined label '${name}'`);
+  }
+  return symbols.labels[name];
+};
+
+// Immediates may also be `%hi(label)` / `%lo(label)`, as produced by `la`
+const resolveImmediate = (
+  operand: string,
+  min: number,
+  max: number,
+  symbols?: SymbolContext
+): number => {
+  const match = /^%(hi|lo)\((.+)\)$/.exec(operand);
+  if (match) {
+    const address = resolveLabel(match[2], symbols);
+    return match[1] === "hi" ? address >>> 16 : address & 0xffff;
+  }
+  return expectNumber(operand, min, max, "immediate");
+};
+
+/**
+ * Encodes one instruction from its parsed mnemonic and operand strings.
+ * Branch and jump operands may be labels when `symbols` is given.
+ * Throws an Error describing the first problem found.
+ */
+export const encodeInstruction = (
+  spec: InstructionSpec,
+  givenOperands: string[],
+  symbols?: SymbolContext
+): number => {
+  const kinds = spec.operands;
+  // `jalr $rs` is shorthand for `jalr $ra, $rs`
+  const operands =
+    spec.mnemonic === "jalr" && givenOperands.length === 1
+      ? ["$ra", givenOperands[0]]
+      : givenOperands;
+  if (operands.length !== kinds.length) {
+    throw new Error(
+      `'${spec.mnemonic}' expects ${kinds.length} operand(s), got ${operands.length}`
+    );
+  }
+
+  let rs = 0;
+  let rt = spec.rtCode ?? 0;
+  let rd = 0;
+  let shamt = 0;
+  let immediate: number | undefined;
+  let target: number | undefined;
+
+  kinds.forEach((kind, index) => {
+    const operand = operands[index];
+    switch (kind) {
+      case "rd":
+        rd = expectRegister(operand);
+        break;
+      case "rs":
+        rs = expectRegister(operand);
+        break;
+      case "rt":
+        rt = expectRegister(operand);
+        break;
+      case "sa":
+        shamt = expectNumber(operand, 0, 31, "shift amount");
+        break;
+      case "imm":
+        immediate = spec.unsignedImmediate
+          ? resolveImmediate(operand, 0, 0xffff, symbols)
+          : resolveImmediate(operand, -0x8000, 0x7fff, symbols);
+        break;
+      case "offset":
+        if (isLabelName(operand)) {
+          // Branch offsets count words from the instruction after the branch
+          const address = resolveLabel(operand, symbols);
+          const offset = (address - (symbols!.address + 4)) >> 2;
+          immediate = checkRange(
+            offset,
+            -0x8000,
+            0x7fff,
+            "branch offset",
+            operand
+          );
+        } else {
+          immediate = expectNumber(operand, -0x8000, 0x7fff, "branch offset");
+        }
+        break;
+      case "target": {
+        const address = isLabelName(operand)
+          ? resolveLabel(operand, symbols)
+          : expectNumber(operand, 0, 0xfffffff, "jump address");
+        target = address >>> 2;
+        break;
+      }
+      case "mem": {
+        const match = /^(.*)\((\$\w+)\)$/.exec(operand);
+        if (!match) {
+          throw new Error(`Expected offset($base), got '${operand}'`);
+        }
+        immediate =
+          match[1] === ""
+            ? 0
+            : expectNumber(match[1], -0x8000, 0x7fff, "offset");
+        rs = expectRegister(match[2]);
+        break;
+      }
+    }
+  });
+
+  if (spec.format === "J") {
+    return encodeFields({ opcode: spec.opcode, target: target ?? 0 });
+  }
+  if (spec.format === "I") {
+    return encodeFields({
+      opcode: spec.opcode,
+      rs,
+      rt,
+      immediate: immediate ?? 0,
+    });
+  }
+  return encodeFields({
+    opcode: spec.opcode,
+    rs,
+    rt,
+    rd,
+    shamt,
+    funct: spec.funct,
+  });
+};
+
+const expectOperandCount = (
+  mnemonic: string,
+  operands: string[],
+  count: number
+) => {
+  if (operands.length !== count) {
+    throw new Error(
+      `'${mnemonic}' expects ${count} operand(s), got ${operands.length}`
+    );
+  }
+};
+
+// Comparison branches built from `slt $at, ...` followed by beq/bne
+const COMPARE_BRANCHES: Record<string, { swap: boolean; branch: string }> = {
+  blt: { swap: false, branch: "bne" },
+  bge: { swap: false, branch: "beq" },
+  bgt: { swap: true, branch: "bne" },
+  ble: { swap: true, branch: "beq" },
+};
+
+/**
+ * Expands a pseudo-instruction into the real instructions it stands for.
+ * Returns null if the mnemonic is not a pseudo-instruction.
+ */
+const expandPseudo = (
+  mnemonic: string,
+  operands: string[]
+): MachineInstruction[] | null => {
+  const op = (name: string, ...args: string[]): MachineInstruction => ({
+    mnemonic: name,
+    operands: args,
+  });
+
+  switch (mnemonic) {
+    case "nop":
+      expectOperandCount(mnemonic, operands, 0);
+      return [op("sll", "$zero", "$zero", "0")];
+    case "move":
+      expectOperandCount(mnemonic, operands, 2);
+      return [op("addu", operands[0], "$zero", operands[1])];
+    case "not":
+      expectOperandCount(mnemonic, operands, 2);
+      return [op("nor", operands[0], operands[1], "$zero")];
+    case "neg":
+      expectOperandCount(mnemonic, operands, 2);
+      return [op("sub", operands[0], "$zero", operands[1])];
+    case "li": {
+      expectOperandCount(mnemonic, operands, 2);
+      const [rt, text] = operands;
+      const value = expectNumber(text, -0x80000000, 0xffffffff, "immediate");
+      if (value >= -0x8000 && value <= 0x7fff) {
+        return [op("addiu", rt, "$zero", `${value}`)];
+      }
+      if (value >= 0 && value <= 0xffff) {
+        return [op("ori", rt, "$zero", `${value}`)];
+      }
+      const word = value >>> 0;
+      return [
+        op("lui", "$at", `${word >>> 16}`),
+        op("ori", rt, "$at", `${word & 0xffff}`),
+      ];
+    }
+    case "la": {
+      expectOperandCount(mnemonic, operands, 2);
+      const [rt, label] = operands;
+      return [
+        op("lui", "$at", `%hi(${label})`),
+        op("ori", rt, "$at", `%lo(${label})`),
+      ];
+    }
+    case "b":
+      expectOperandCount(mnemonic, operands, 1);
+      return [op("beq", "$zero", "$zero", operands[0])];
+    case "beqz":
+    case "bnez":
+      expectOperandCount(mnemonic, operands, 2);
+      return [
+        op(
+          mnemonic === "beqz" ? "beq" : "bne",
+          operands[0],
+          "$zero",
+          operands[1]
+        ),
+      ];
+    case "blt":
+    case "bge":
+    case "bgt":
+    case "ble": {
+      expectOperandCount(mnemonic, operands, 3);
+      const [rs, rt, label] = operands;
+      const { swap, branch } = COMPARE_BRANCHES[mnemonic];
+      return [
+        op("slt", "$at", swap ? rt : rs, swap ? rs : rt),
+        op(branch, "$at", "$zero", label),
+      ];
+    }
+    default:
+      return null;
+  }
+};
+
+// Element size (and alignment) of the numeric data directives
+const DATA_SIZES: Record<string, number> = {
+  ".word": 4,
+  ".half": 2,
+  ".byte": 1,
+};
+
+const parseStringLiteral = (text: string): string => {
+  const match = /^"((?:[^"\\]|\\.)*)"$/.exec(text.trim());
+  if (!match) {
+    throw new Error(`Expected a string literal, got '${text.trim()}'`);
+  }
+  return unescapeString(match[1]);
+};
+
+const alignUp = (address: number, alignment: number): number =>
+  Math.ceil(address / alignment) * alignment;
+
+// Size in bytes of a data directive, without alignment padding
+const dataSize = (directive: string, args: string): number => {
+  switch (directive) {
+    case ".word":
+    case ".half":
+    case ".byte":
+      return splitOperands(args).length * DATA_SIZES[directive];
+    case ".ascii":
+      return parseStringLiteral(args).length;
+    case ".asciiz":
+      return parseStringLiteral(args).length + 1;
+    case ".space":
+      return expectNumber(args, 0, 0x100000, "size");
+    default:
+      throw new Error(`Unknown directive '${directive}'`);
+  }
+};
+
+// Directives that are accepted but have no effect here
+const IGNORED_DIRECTIVES = new Set([".globl", ".global", ".ent", ".end"]);
+
+/**
+ * Assembles MIPS assembly text into hex instruction words.
+ *
+ * Supports labels, the `.text` / `.data` segments with `.word`, `.half`,
+ * `.byte`, `.ascii`, `.asciiz`, `.space` and `.align` directives, and the
+ * common pseudo-instructions (`li`, `la`, `move`, `nop`, `blt`, ...).
+ * Every line is checked so all errors can be reported at once.
+ */
+export const assemble = (source: string): AssemblyResult => {
+  const errors: AssemblyError[] = [];
+  const labels: Record<string, number> = {};
+  const textStatements: TextStatement[] = [];
+  const dataStatements: DataStatement[] = [];
+
+  let segment: Segment = "text";
+  const next: Record<Segment, number> = { text: TEXT_BASE, data: DATA_BASE };
+
+  // First pass: collect labels and lay out both segments
+  source.split("\n").forEach((rawLine, index) => {
+    const lineNumber = index + 1;
+    let line = stripComment(rawLine);
+    const lineLabels: string[] = [];
+
+    try {
+      let labelMatch = LABEL_REGEX.exec(line);
+      while (labelMatch) {
+        const name = labelMatch[1];
+        if (name in labels) {
+          throw new Error(`Duplicate label '${name}'`);
+        }
+        labels[name] = next[segment];
+        lineLabels.push(name);
+        line = line.slice(labelMatch[0].length).trim();
+        labelMatch = LABEL_REGEX.exec(line);
+      }
+      if (line.length === 0) return;
+
+      const [, keyword, rest] = /^(\S+)\s*(.*)$/.exec(line) ?? [];
+      const name = keyword.toLowerCase();
+
+      if (name === ".text" || name === ".data") {
+        segment = name === ".text" ? "text" : "data";
+        // A label before a segment switch belongs to the new segment
+        lineLabels.forEach((label) => (labels[label] = next[segment]));
+        return;
+      }
+      if (IGNORED_DIRECTIVES.has(name)) return;
+      if (name === ".align") {
+        const power = expectNumber(rest, 0, 3, "alignment");
+        const address = alignUp(next[segment], 2 ** power);
+        if (segment === "text" && address > next.text) {
+          // Pad with nops so the code stays contiguous with its addresses
+          textStatements.push({
+            line: lineNumber,
+            source: line,
+            address: next.text,
+            mnemonic: ".word",
+            operands: new Array((address - next.text) / 4).fill("0"),
+            expansion: [],
+          });
+        }
+        next[segment] = address;
+        lineLabels.forEach((label) => (labels[label] = next[segment]));
+        return;
+      }
+
+      if (name.startsWith(".")) {
+        if (segment === "text" && name !== ".word") {
+          throw new Error(`Directive '${name}' is not allowed in .text`);
+        }
+        // Data is aligned to its element size; labels on the line follow it
+        const address = alignUp(next[segment], DATA_SIZES[name] ?? 1);
+        lineLabels.forEach((label) => (labels[label] = address));
+        next[segment] = address + dataSize(name, rest);
+
+        if (segment === "text") {
+          // Raw words in .text are emitted as instructions
+          textStatements.push({
+            line: lineNumber,
+            source: line,
+            address,
+            mnemonic: name,
+            operands: splitOperands(rest),
+            expansion: [],
+          });
+        } else {
+          dataStatements.push({
+            line: lineNumber,
+            address,
+            directive: name,
+            args: rest,
+          });
+        }
+        return;
+      }
+
+      if (segment !== "text") {
+        throw new Error(`Instruction '${keyword}' is not allowed in .data`);
+      }
+
+      const operands = splitOperands(rest);
+      const expansion = expandPseudo(name, operands) ?? [
+        { mnemonic: name, operands },
+      ];
+      if (!findSpecByMnemonic(expansion[0].mnemonic)) {
+        throw new Error(`Unknown instruction '${keyword}'`);
+      }
+      textStatements.push({
+        line: lineNumber,
+        source: line,
+        address: next.text,
+        mnemonic: name,
+        operands,
+        expansion,
+      });
+      next.text += expansion.length * 4;
+    } catch (error) {
+      errors.push({ line: lineNumber, message: (error as Error).message });
+    }
+  });
+
+  // Second pass: encode instructions and data with all labels known
+  const instructions: string[] = [];
+  const sourceMap: SourceMapEntry[] = [];
+
+  const resolveWord = (operand: string, address: number): number =>
+    isLabelName(operand)
+      ? resolveLabel(operand, { address, labels })
+      : expectNumber(operand, -0x80000000, 0xffffffff, "word");
+
+  textStatements.forEach((statement) => {
+    try {
+      const isRawWord = statement.mnemonic === ".word";
+      const words = isRawWord
+        ? statement.operands.map((operand) =>
+            resolveWord(operand, statement.address)
+          )
+        : statement.expansion.map((instruction, offset) =>
+            encodeInstruction(
+              findSpecByMnemonic(instruction.mnemonic)!,
+              instruction.operands,
+              { address: statement.address + offset * 4, labels }
+            )
+          );
+      const isPseudo =
+        !isRawWord && statement.expansion[0].mnemonic !== statement.mnemonic;
+
+      words.forEach((word, offset) => {
+        instructions.push(toHexWord(word));
+        sourceMap.push({
+          address: statement.address + offset * 4,
+          line: statement.line,
+          source: statement.source,
+          pseudo: isPseudo ? statement.mnemonic : undefined,
+        });
+      });
+    } catch (error) {
+      errors.push({ line: statement.line, message: (error as Error).message });
+    }
+  });
+
+  const data: number[] = new Array(next.data - DATA_BASE).fill(0);
+  dataStatements.forEach((statement) => {
+    let offset = statement.address - DATA_BASE;
+    // Little-endian, like MARS
+    const store = (value: number, size: number) => {
+      for (let i = 0; i < size; i++) {
+        data[offset + i] = (value >>> (8 * i)) & 0xff;
+      }
+      offset += size;
+    };
+
+    try {
+      switch (statement.directive) {
+        case ".word":
+          splitOperands(statement.args).forEach((operand) =>
+            store(resolveWord(operand, statement.address), 4)
+          );
+          break;
+        case ".half":
+        case ".byte": {
+          const size = DATA_SIZES[statement.directive];
+          const bits = size * 8;
+          splitOperands(statement.args).forEach((operand) =>
+            store(
+              expectNumber(
+                operand,
+                -(2 ** (bits - 1)),
+                2 ** bits - 1,
+                statement.directive.slice(1)
+              ),
+              size
+            )
+          );
+          break;
+        }
+        case ".ascii":
+        case ".asciiz":
+          Array.from(parseStringLiteral(statement.args)).forEach((char) =>
+            store(char.charCodeAt(0), 1)
+          );
+          break;
+        // .space leaves its bytes zeroed
+      }
+    } catch (error) {
+      errors.push({ line: statement.line, message: (error as Error).message });
+    }
+  });
+
+  errors.sort((a, b) => a.line - b.line);
+  return { instructions, sourceMap, labels, data, errors };
+};
+
+export const formatAssemblyErrors = (errors: AssemblyError[]): string =>
+  errors.map((error) => `Line ${error.line}: ${error.message}`).join("\n");
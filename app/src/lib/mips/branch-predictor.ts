@@ -0,0 +1,162 @@
+// src/lib/mips/branch-predictor.ts
+
+export type BranchPredictorKind =
+  | "not-taken"
+  | "taken"
+  | "btfn"
+  | "one-bit"
+  | "two-bit"
+  | "btb";
+
+export const BRANCH_PREDICTORS: {
+  kind: BranchPredictorKind;
+  label: string;
+  description: string;
+}[] = [
+  {
+    kind: "not-taken",
+    label: "Predict not taken",
+    description: "Always keeps fetching sequentially",
+  },
+  {
+    kind: "taken",
+    label: "Predict taken",
+    description: "Always redirects to the target once it is decoded",
+  },
+  {
+    kind: "btfn",
+    label: "Static BTFN",
+    description: "Backward branches taken, forward branches not taken",
+  },
+  {
+    kind: "one-bit",
+    label: "1-bit counter",
+    description: "Repeats the last outcome of the branch",
+  },
+  {
+    kind: "two-bit",
+    label: "2-bit counter",
+    description: "Saturating counter, changes after two mispredictions",
+  },
+  {
+    kind: "btb",
+    label: "Branch target buffer",
+    description: "2-bit counter and cached target, predicted while fetching",
+  },
+];
+
+// Number of entries of the history table and of the BTB, indexed by the
+// low bits of the word address of the branch
+export const PREDICTOR_TABLE_SIZE = 16;
+
+export interface BranchPrediction {
+  taken: boolean;
+  target?: number; // Predicted target, when taken
+  // Stage where the prediction redirects the fetch: IF when the target comes
+  // from the BTB, otherwise ID once the branch has been decoded
+  stage: "IF" | "ID";
+}
+
+export interface BranchPredictor {
+  kind: BranchPredictorKind;
+  // `target` is the branch target, known once the branch is decoded
+  predict: (pc: number, target: number) => BranchPrediction;
+  update: (pc: number, taken: boolean, target: number) => void;
+}
+
+const tableIndex = (pc: number) => (pc >>> 2) % PREDICTOR_TABLE_SIZE;
+
+// Saturating 2-bit counter: 0-1 predict not taken, 2-3 predict taken.
+// Counters start weakly not taken.
+const WEAKLY_NOT_TAKEN = 1;
+const nextCounter = (counter: number, taken: boolean) =>
+  taken ? Math.min(counter + 1, 3) : Math.max(counter - 1, 0);
+
+/** Creates a predictor with empty history tables. */
+export const createBranchPredictor = (
+  kind: BranchPredictorKind
+): BranchPredictor => {
+  switch (kind) {
+    case "not-taken":
+      return {
+        kind,
+        predict: () => ({ taken: false, stage: "ID" }),
+        update: () => {},
+      };
+    case "taken":
+      return {
+        kind,
+        predict: (_, target) => ({ taken: true, target, stage: "ID" }),
+        update: () => {},
+      };
+    case "btfn":
+      return {
+        kind,
+        predict: (pc, target) =>
+          target <= pc
+            ? { taken: true, target, stage: "ID" }
+            : { taken: false, stage: "ID" },
+        update: () => {},
+      };
+    case "one-bit": {
+      const lastTaken = new Array<boolean>(PREDICTOR_TABLE_SIZE).fill(false);
+      return {
+        kind,
+        predict: (pc, target) =>
+          lastTaken[tableIndex(pc)]
+            ? { taken: true, target, stage: "ID" }
+            : { taken: false, stage: "ID" },
+        update: (pc, taken) => {
+          lastTaken[tableIndex(pc)] = taken;
+        },
+      };
+    }
+    case "two-bit": {
+      const counters = new Array<number>(PREDICTOR_TABLE_SIZE).fill(
+        WEAKLY_NOT_TAKEN
+      );
+      return {
+        kind,
+        predict: (pc, target) =>
+          counters[tableIndex(pc)] >= 2
+            ? { taken: true, target, stage: "ID" }
+            : { taken: false, stage: "ID" },
+        update: (pc, taken) => {
+          const index = tableIndex(pc);
+          counters[index] = nextCounter(counters[index], taken);
+        },
+      };
+    }
+    case "btb": {
+      // Direct-mapped: each entry is tagged with the full branch address
+      const entries: ({
+        pc: number;
+        target: number;
+        counter: number;
+      } | null)[] = new Array(PREDICTOR_TABLE_SIZE).fill(null);
+      return {
+        kind,
+        predict: (pc) => {
+          const entry = entries[tableIndex(pc)];
+          return entry?.pc === pc && entry.counter >= 2
+            ? { taken: true, target: entry.target, stage: "IF" }
+            : { taken: false, stage: "IF" };
+        },
+        update: (pc, taken, target) => {
+          const index = tableIndex(pc);
+          const entry = entries[index];
+          if (entry?.pc === pc) {
+            entries[index] = {
+              pc,
+              target: taken ? target : entry.target,
+              counter: nextCounter(entry.counter, taken),
+            };
+          } else if (taken) {
+            // Only taken branches are allocated an entry
+            entries[index] = { pc, target, counter: 2 };
+          }
+        },
+      };
+    }
+  }
+};
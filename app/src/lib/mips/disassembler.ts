@@ -0,0 +1,94 @@
+// src/lib/mips/disassembler.ts
+
+import {
+  decodeFields,
+  findSpecByEncoding,
+  signExtend16,
+  type InstructionFields,
+  type InstructionSpec,
+} from "./isa";
+import { formatRegister, type RegisterNameStyle } from "./registers";
+
+export interface DisassembleOptions {
+  registerNames?: RegisterNameStyle;
+  // Address of the instruction; when given, branch and jump targets are
+  // shown as absolute addresses instead of raw offsets
+  pc?: number;
+  // Address -> label, used to show branch and jump targets by name
+  symbols?: Record<number, string>;
+}
+
+const formatHex = (value: number): string =>
+  `0x${(value >>> 0).toString(16).padStart(8, "0")}`;
+
+const formatAddress = (address: number, options: DisassembleOptions) =>
+  options.symbols?.[address] ?? formatHex(address);
+
+const formatOperand = (
+  kind: InstructionSpec["operands"][number],
+  spec: InstructionSpec,
+  fields: InstructionFields,
+  options: DisassembleOptions
+): string => {
+  const register = (n: number) => formatRegister(n, options.registerNames);
+  switch (kind) {
+    case "rd":
+      return register(fields.rd);
+    case "rs":
+      return register(fields.rs);
+    case "rt":
+      return register(fields.rt);
+    case "sa":
+      return `${fields.shamt}`;
+    case "imm":
+      return spec.unsignedImmediate
+        ? `0x${fields.immediate.toString(16)}`
+        : `${signExtend16(fields.immediate)}`;
+    case "offset": {
+      const offset = signExtend16(fields.immediate);
+      return options.pc === undefined
+        ? `${offset}`
+        : formatAddress(options.pc + 4 + offset * 4, options);
+    }
+    case "target": {
+      const region =
+        options.pc === undefined ? 0 : (options.pc + 4) & 0xf0000000;
+      return formatAddress(region | (fields.target << 2), options);
+    }
+    case "mem":
+      return `${signExtend16(fields.immediate)}(${register(fields.rs)})`;
+  }
+};
+
+/**
+ * Disassembles a 32-bit instruction word (number or hex string) into
+ * assembly text, e.g. `lw $t1, 8($sp)`. Words that do not decode to a known
+ * instruction are shown as `.word 0x...`.
+ */
+export const disassemble = (
+  instruction: number | string,
+  options: DisassembleOptions = {}
+): string => {
+  const word =
+    typeof instruction === "string"
+      ? parseInt(instruction, 16) >>> 0
+      : instruction >>> 0;
+  if (word === 0) return "nop";
+
+  const fields = decodeFields(word);
+  const spec = findSpecByEncoding(fields.opcode, fields.funct, fields.rt);
+  if (!spec) return `.word ${formatHex(word)}`;
+
+  let kinds = spec.operands;
+  // Show `jalr $ra, $rs` in its usual one-operand form
+  if (spec.mnemonic === "jalr" && fields.rd === 31) {
+    kinds = ["rs"];
+  }
+
+  const operands = kinds.map((kind) =>
+    formatOperand(kind, spec, fields, options)
+  );
+  return operands.length > 0
+    ? `${spec.mnemonic} ${operands.join(", ")}`
+    : spec.mnemonic;
+};
@@ -0,0 +1,73 @@
+// src/lib/mips/forwarding.test.ts
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  operandSource,
+  registerFileReadCycle,
+  ALL_FORWARDING_PATHS,
+  type ForwardingPath,
+} from "./forwarding";
+
+// The producer is in EX in cycle 3 throughout
+const PRODUCER_EX = 3;
+
+describe("registerFileReadCycle", () => {
+  it("reads in the producer's WB with a split-cycle register file", () => {
+    assert.equal(registerFileReadCycle(PRODUCER_EX, true), 5);
+  });
+
+  it("reads the cycle after WB otherwise", () => {
+    assert.equal(registerFileReadCycle(PRODUCER_EX, false), 6);
+  });
+});
+
+describe("operandSource", () => {
+  const source = (
+    reader: "ID" | "EX" | "MEM",
+    readCycle: number,
+    {
+      isLoad = false,
+      paths = ALL_FORWARDING_PATHS,
+      splitCycle = true,
+    }: { isLoad?: boolean; paths?: ForwardingPath[]; splitCycle?: boolean } = {}
+  ) => operandSource(reader, readCycle, PRODUCER_EX, isLoad, paths, splitCycle);
+
+  it("forwards an ALU result from EX/MEM to the next instruction's EX", () => {
+    assert.equal(source("EX", 4), "ex-mem-to-ex");
+  });
+
+  it("forwards from MEM/WB two cycles after EX", () => {
+    assert.equal(source("EX", 5), "mem-wb-to-ex");
+    assert.equal(source("EX", 5, { isLoad: true }), "mem-wb-to-ex");
+  });
+
+  it("never forwards a load from EX/MEM", () => {
+    assert.equal(source("EX", 4, { isLoad: true }), null);
+  });
+
+  it("falls back to the register file once it has been written", () => {
+    assert.equal(source("EX", 6), "register-file");
+    assert.equal(source("EX", 6, { splitCycle: false }), null);
+    assert.equal(source("EX", 7, { splitCycle: false }), "register-file");
+  });
+
+  it("only uses the enabled paths", () => {
+    assert.equal(source("EX", 4, { paths: ["mem-wb-to-ex"] }), null);
+    assert.equal(source("EX", 5, { paths: ["ex-mem-to-ex"] }), null);
+    assert.equal(source("EX", 6, { paths: [] }), "register-file");
+  });
+
+  it("forwards into ID for branches and register jumps", () => {
+    assert.equal(source("ID", 4), "ex-mem-to-id");
+    assert.equal(source("ID", 4, { isLoad: true }), null);
+    assert.equal(source("ID", 4, { paths: [] }), null);
+    assert.equal(source("ID", 5), "register-file");
+  });
+
+  it("forwards a loaded value to the data of a store in MEM", () => {
+    assert.equal(source("MEM", 5, { isLoad: true }), "mem-to-mem");
+    assert.equal(source("MEM", 5, { paths: ["mem-wb-to-ex"] }), null);
+    assert.equal(source("MEM", 6), null);
+  });
+});
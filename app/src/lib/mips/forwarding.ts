@@ -0,0 +1,94 @@
+// src/lib/mips/forwarding.ts
+
+// Datapath from a pipeline register back to the stage that needs the value
+export type ForwardingPath =
+  | "ex-mem-to-ex"
+  | "mem-wb-to-ex"
+  | "mem-to-mem"
+  | "ex-mem-to-id";
+
+export const FORWARDING_PATHS: {
+  path: ForwardingPath;
+  label: string;
+  description: string;
+}[] = [
+  {
+    path: "ex-mem-to-ex",
+    label: "EX/MEM → EX",
+    description: "ALU result of the previous instruction into the ALU",
+  },
+  {
+    path: "mem-wb-to-ex",
+    label: "MEM/WB → EX",
+    description: "ALU result or loaded value from two instructions back",
+  },
+  {
+    path: "mem-to-mem",
+    label: "MEM/WB → MEM",
+    description: "Loaded value into the data of a store right behind it",
+  },
+  {
+    path: "ex-mem-to-id",
+    label: "EX/MEM → ID",
+    description: "ALU result into the branch comparator and jump register",
+  },
+];
+
+export const ALL_FORWARDING_PATHS: ForwardingPath[] = FORWARDING_PATHS.map(
+  ({ path }) => path
+);
+
+// Stage that uses an operand: ID for branches compared there and register
+// jumps, MEM for the data of a store, EX otherwise
+export type OperandReader = "ID" | "EX" | "MEM";
+
+// Where a value comes from: a forwarding path or the register file
+export type OperandSource = ForwardingPath | "register-file";
+
+/**
+ * First cycle in which ID reads the result of a producer that is in EX in
+ * `producerExCycle` from the register file. With a split-cycle register
+ * file (written in the first half of a cycle, read in the second) that is
+ * the producer's WB; otherwise the cycle after.
+ */
+export const registerFileReadCycle = (
+  producerExCycle: number,
+  splitCycle: boolean
+): number => producerExCycle + (splitCycle ? 2 : 3);
+
+/**
+ * Finds where a reader gets the value of an older producer in `readCycle`,
+ * given the forwarding paths the datapath has. The producer is in EX in
+ * `producerExCycle`, so its result is in EX/MEM during the next cycle (not
+ * for loads, whose value comes out of MEM) and in MEM/WB the cycle after.
+ * The register file is read in ID (see `registerFileReadCycle`). Returns
+ * null if the value cannot be obtained in that cycle, so the reader has to
+ * stall.
+ */
+export const operandSource = (
+  reader: OperandReader,
+  readCycle: number,
+  producerExCycle: number,
+  producerIsLoad: boolean,
+  paths: readonly ForwardingPath[],
+  splitCycle: boolean
+): OperandSource | null => {
+  const inExMem = readCycle === producerExCycle + 1 && !producerIsLoad;
+  const inMemWb = readCycle === producerExCycle + 2;
+  const readableCycle = registerFileReadCycle(producerExCycle, splitCycle);
+
+  switch (reader) {
+    case "ID":
+      if (inExMem && paths.includes("ex-mem-to-id")) return "ex-mem-to-id";
+      return readCycle >= readableCycle ? "register-file" : null;
+    case "EX":
+      if (inExMem && paths.includes("ex-mem-to-ex")) return "ex-mem-to-ex";
+      if (inMemWb && paths.includes("mem-wb-to-ex")) return "mem-wb-to-ex";
+      // Read in ID, the cycle before
+      return readCycle - 1 >= readableCycle ? "register-file" : null;
+    case "MEM":
+      // Only the store data path reaches MEM; otherwise the value must
+      // already have been read in EX
+      return inMemWb && paths.includes("mem-to-mem") ? "mem-to-mem" : null;
+  }
+};
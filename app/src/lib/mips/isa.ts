@@ -0,0 +1,250 @@
+// src/lib/mips/isa.ts
+
+// Operand kinds, in the order they appear in assembly syntax
+//   rd / rs / rt - register fields
+//   sa          - 5-bit shift amount
+//   imm         - 16-bit immediate
+//   offset      - 16-bit branch offset (in words, relative to PC + 4)
+//   target      - 26-bit jump target
+//   mem         - offset(base) addressing, base in rs
+export type OperandKind =
+  | "rd"
+  | "rs"
+  | "rt"
+  | "sa"
+  | "imm"
+  | "offset"
+  | "target"
+  | "mem";
+
+export type InstructionFormat = "R" | "I" | "J";
+
+export interface InstructionSpec {
+  mnemonic: string;
+  format: InstructionFormat;
+  opcode: number;
+  funct?: number; // For SPECIAL (0) and SPECIAL2 (28) opcodes
+  rtCode?: number; // For REGIMM (1) opcodes, the rt field selects the branch
+  operands: readonly OperandKind[];
+  unsignedImmediate?: boolean; // Logical immediates are zero-extended
+}
+
+export const OPCODE_SPECIAL = 0;
+export const OPCODE_REGIMM = 1;
+export const OPCODE_SPECIAL2 = 28;
+
+const r = (
+  mnemonic: string,
+  funct: number,
+  operands: readonly OperandKind[]
+): InstructionSpec => ({
+  mnemonic,
+  format: "R",
+  opcode: OPCODE_SPECIAL,
+  funct,
+  operands,
+});
+
+const r2 = (
+  mnemonic: string,
+  funct: number,
+  operands: readonly OperandKind[]
+): InstructionSpec => ({
+  mnemonic,
+  format: "R",
+  opcode: OPCODE_SPECIAL2,
+  funct,
+  operands,
+});
+
+const i = (
+  mnemonic: string,
+  opcode: number,
+  operands: readonly OperandKind[],
+  unsignedImmediate = false
+): InstructionSpec => ({
+  mnemonic,
+  format: "I",
+  opcode,
+  operands,
+  unsignedImmediate,
+});
+
+const regimm = (mnemonic: string, rtCode: number): InstructionSpec => ({
+  mnemonic,
+  format: "I",
+  opcode: OPCODE_REGIMM,
+  rtCode,
+  operands: ["rs", "offset"],
+});
+
+// MIPS32 integer instruction set
+export const INSTRUCTION_SPECS: readonly InstructionSpec[] = [
+  // SPECIAL (opcode 0)
+  r("sll", 0, ["rd", "rt", "sa"]),
+  r("srl", 2, ["rd", "rt", "sa"]),
+  r("sra", 3, ["rd", "rt", "sa"]),
+  r("sllv", 4, ["rd", "rt", "rs"]),
+  r("srlv", 6, ["rd", "rt", "rs"]),
+  r("srav", 7, ["rd", "rt", "rs"]),
+  r("jr", 8, ["rs"]),
+  r("jalr", 9, ["rd", "rs"]),
+  r("movz", 10, ["rd", "rs", "rt"]),
+  r("movn", 11, ["rd", "rs", "rt"]),
+  r("syscall", 12, []),
+  r("break", 13, []),
+  r("mfhi", 16, ["rd"]),
+  r("mthi", 17, ["rs"]),
+  r("mflo", 18, ["rd"]),
+  r("mtlo", 19, ["rs"]),
+  r("mult", 24, ["rs", "rt"]),
+  r("multu", 25, ["rs", "rt"]),
+  r("div", 26, ["rs", "rt"]),
+  r("divu", 27, ["rs", "rt"]),
+  r("add", 32, ["rd", "rs", "rt"]),
+  r("addu", 33, ["rd", "rs", "rt"]),
+  r("sub", 34, ["rd", "rs", "rt"]),
+  r("subu", 35, ["rd", "rs", "rt"]),
+  r("and", 36, ["rd", "rs", "rt"]),
+  r("or", 37, ["rd", "rs", "rt"]),
+  r("xor", 38, ["rd", "rs", "rt"]),
+  r("nor", 39, ["rd", "rs", "rt"]),
+  r("slt", 42, ["rd", "rs", "rt"]),
+  r("sltu", 43, ["rd", "rs", "rt"]),
+
+  // REGIMM (opcode 1)
+  regimm("bltz", 0),
+  regimm("bgez", 1),
+  regimm("bltzal", 16),
+  regimm("bgezal", 17),
+
+  // Jumps
+  { mnemonic: "j", format: "J", opcode: 2, operands: ["target"] },
+  { mnemonic: "jal", format: "J", opcode: 3, operands: ["target"] },
+
+  // Branches
+  i("beq", 4, ["rs", "rt", "offset"]),
+  i("bne", 5, ["rs", "rt", "offset"]),
+  i("blez", 6, ["rs", "offset"]),
+  i("bgtz", 7, ["rs", "offset"]),
+
+  // Immediate arithmetic and logic
+  i("addi", 8, ["rt", "rs", "imm"]),
+  i("addiu", 9, ["rt", "rs", "imm"]),
+  i("slti", 10, ["rt", "rs", "imm"]),
+  i("sltiu", 11, ["rt", "rs", "imm"]),
+  i("andi", 12, ["rt", "rs", "imm"], true),
+  i("ori", 13, ["rt", "rs", "imm"], true),
+  i("xori", 14, ["rt", "rs", "imm"], true),
+  i("lui", 15, ["rt", "imm"], true),
+
+  // SPECIAL2 (opcode 28)
+  r2("madd", 0, ["rs", "rt"]),
+  r2("maddu", 1, ["rs", "rt"]),
+  r2("mul", 2, ["rd", "rs", "rt"]),
+  r2("msub", 4, ["rs", "rt"]),
+  r2("msubu", 5, ["rs", "rt"]),
+  r2("clz", 32, ["rd", "rs"]),
+  r2("clo", 33, ["rd", "rs"]),
+
+  // Loads
+  i("lb", 32, ["rt", "mem"]),
+  i("lh", 33, ["rt", "mem"]),
+  i("lwl", 34, ["rt", "mem"]),
+  i("lw", 35, ["rt", "mem"]),
+  i("lbu", 36, ["rt", "mem"]),
+  i("lhu", 37, ["rt", "mem"]),
+  i("lwr", 38, ["rt", "mem"]),
+
+  // Stores
+  i("sb", 40, ["rt", "mem"]),
+  i("sh", 41, ["rt", "mem"]),
+  i("swl", 42, ["rt", "mem"]),
+  i("sw", 43, ["rt", "mem"]),
+  i("swr", 46, ["rt", "mem"]),
+];
+
+const SPECS_BY_MNEMONIC = new Map(
+  INSTRUCTION_SPECS.map((spec) => [spec.mnemonic, spec])
+);
+
+export const findSpecByMnemonic = (
+  mnemonic: string
+): InstructionSpec | undefined => SPECS_BY_MNEMONIC.get(mnemonic.toLowerCase());
+
+/**
+ * Finds the instruction matching an encoded word's opcode and, depending on
+ * the opcode, its funct or rt field.
+ */
+export const findSpecByEncoding = (
+  opcode: number,
+  funct: number,
+  rt: number
+): InstructionSpec | undefined =>
+  INSTRUCTION_SPECS.find((spec) => {
+    if (spec.opcode !== opcode) return false;
+    if (opcode === OPCODE_SPECIAL || opcode === OPCODE_SPECIAL2) {
+      return spec.funct === funct;
+    }
+    if (opcode === OPCODE_REGIMM) return spec.rtCode === rt;
+    return true;
+  });
+
+// Encoded bit fields of a 32-bit instruction word
+export interface InstructionFields {
+  opcode: number;
+  rs: number;
+  rt: number;
+  rd: number;
+  shamt: number;
+  funct: number;
+  immediate: number; // Raw 16-bit field, not sign-extended
+  target: number; // Raw 26-bit field
+}
+
+export const decodeFields = (word: number): InstructionFields => ({
+  opcode: (word >>> 26) & 0x3f,
+  rs: (word >>> 21) & 0x1f,
+  rt: (word >>> 16) & 0x1f,
+  rd: (word >>> 11) & 0x1f,
+  shamt: (word >>> 6) & 0x1f,
+  funct: word & 0x3f,
+  immediate: word & 0xffff,
+  target: word & 0x3ffffff,
+});
+
+export const encodeFields = (fields: Partial<InstructionFields>): number => {
+  const {
+    opcode = 0,
+    rs = 0,
+    rt = 0,
+    rd = 0,
+    shamt = 0,
+    funct = 0,
+    immediate,
+    target,
+  } = fields;
+
+  if (target !== undefined) {
+    return ((opcode << 26) | (target & 0x3ffffff)) >>> 0;
+  }
+  if (immediate !== undefined) {
+    return (
+      ((opcode << 26) | (rs << 21) | (rt << 16) | (immediate & 0xffff)) >>> 0
+    );
+  }
+  return (
+    ((opcode << 26) |
+      (rs << 21) |
+      (rt << 16) |
+      (rd << 11) |
+      (shamt << 6) |
+      funct) >>>
+    0
+  );
+};
+
+export const toHexWord = (word: number): string =>
+  (word >>> 0).toString(16).padStart(8, "0");
+
+export const signExtend16 = (value: number): number => (value << 16) >> 16;
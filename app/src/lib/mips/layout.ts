@@ -0,0 +1,9 @@
+// src/lib/mips/layout.ts
+
+// Default memory layout, matching the MARS simulator
+export const TEXT_BASE = 0x00400000;
+export const DATA_BASE = 0x10010000;
+
+// Initial values of $gp and $sp
+export const GLOBAL_POINTER = 0x10008000;
+export const STACK_POINTER = 0x7fffeffc;
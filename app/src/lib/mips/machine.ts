@@ -0,0 +1,538 @@
+// src/lib/mips/machine.ts
+
+import { decodeFields, findSpecByEncoding, signExtend16 } from "./isa";
+import { DATA_BASE, GLOBAL_POINTER, STACK_POINTER, TEXT_BASE } from "./layout";
+import { decodeOperands } from "./operands";
+
+// Sparse byte-addressable memory: address -> byte. Missing bytes read as 0.
+export type Memory = Record<number, number>;
+
+// Architectural state of the functional core. Register values are kept as
+// signed 32-bit integers.
+export interface MachineState {
+  registers: number[];
+  hi: number;
+  lo: number;
+  pc: number;
+  memory: Memory;
+}
+
+export interface RegisterValue {
+  register: number;
+  value?: number; // Undefined until known (e.g. a load before MEM)
+}
+
+export interface MemoryAccess {
+  type: "load" | "store";
+  address: number;
+  size: 1 | 2 | 4;
+  value?: number; // Value loaded or stored, once the access happened
+}
+
+// Everything an instruction did while executing, filled in as it moves
+// through EX, MEM and WB
+export interface ExecutionRecord {
+  pc: number;
+  mnemonic: string;
+  reads: RegisterValue[]; // Source registers and the values read in EX
+  write?: RegisterValue; // Destination register and result
+  hi?: number; // New HI value, if written
+  lo?: number; // New LO value, if written
+  memoryAccess?: MemoryAccess;
+  nextPc: number;
+  branchTaken?: boolean; // For branches and jumps
+}
+
+// Supplies operand values to an instruction entering EX
+export interface OperandReader {
+  register: (register: number) => number;
+  hi: () => number;
+  lo: () => number;
+}
+
+export interface MachineOptions {
+  data?: number[]; // Bytes of the .data segment, loaded at DATA_BASE
+  registers?: number[]; // Initial register values
+  memory?: Memory; // Preloaded memory, applied on top of `data`
+}
+
+export const createMachineState = ({
+  data = [],
+  registers: initialRegisters,
+  memory: initialMemory = {},
+}: MachineOptions = {}): MachineState => {
+  const registers = initialRegisters
+    ? [...initialRegisters]
+    : new Array(32).fill(0);
+  if (!initialRegisters) {
+    registers[28] = GLOBAL_POINTER;
+    registers[29] = STACK_POINTER;
+  }
+  registers[0] = 0;
+
+  const memory: Memory = {};
+  data.forEach((byte, offset) => {
+    if (byte !== 0) memory[DATA_BASE + offset] = byte;
+  });
+  Object.assign(memory, initialMemory);
+
+  return { registers, hi: 0, lo: 0, pc: TEXT_BASE, memory };
+};
+
+/** Reads `size` bytes (little-endian) as an unsigned value. */
+export const readMemory = (
+  memory: Memory,
+  address: number,
+  size: 1 | 2 | 4
+): number => {
+  let value = 0;
+  for (let i = size - 1; i >= 0; i--) {
+    value = value * 256 + (memory[(address + i) >>> 0] ?? 0);
+  }
+  return value;
+};
+
+/** Writes `size` bytes (little-endian), returning a new memory object. */
+export const writeMemory = (
+  memory: Memory,
+  address: number,
+  size: 1 | 2 | 4,
+  value: number
+): Memory => {
+  const next = { ...memory };
+  for (let i = 0; i < size; i++) {
+    next[(address + i) >>> 0] = (value >>> (8 * i)) & 0xff;
+  }
+  return next;
+};
+
+const LOAD_SIZES: Record<string, { size: 1 | 2 | 4; signed: boolean }> = {
+  lb: { size: 1, signed: true },
+  lbu: { size: 1, signed: false },
+  lh: { size: 2, signed: true },
+  lhu: { size: 2, signed: false },
+  lw: { size: 4, signed: true },
+  lwl: { size: 4, signed: true },
+  lwr: { size: 4, signed: true },
+};
+
+const STORE_SIZES: Record<string, 1 | 2 | 4> = {
+  sb: 1,
+  sh: 2,
+  sw: 4,
+  swl: 4,
+  swr: 4,
+};
+
+const toSigned64 = (hi: number, lo: number): bigint =>
+  (BigInt(hi) << BigInt(32)) | BigInt(lo >>> 0);
+
+const splitHiLo = (product: bigint): { hi: number; lo: number } => ({
+  hi: Number(BigInt.asIntN(32, product >> BigInt(32))),
+  lo: Number(BigInt.asIntN(32, product)),
+});
+
+/**
+ * Executes the EX stage of an instruction: reads its operands, computes the
+ * ALU result, the effective address of loads and stores, and the outcome of
+ * branches and jumps. Loads get their value later, in accessMemory.
+ */
+export const executeInstruction = (
+  word: number,
+  pc: number,
+  read: OperandReader
+): ExecutionRecord => {
+  const fields = decodeFields(word);
+  const spec = findSpecByEncoding(fields.opcode, fields.funct, fields.rt);
+  const record: ExecutionRecord = {
+    pc,
+    mnemonic: word === 0 ? "nop" : spec?.mnemonic ?? "unknown",
+    reads: [],
+    nextPc: (pc + 4) >>> 0,
+  };
+  if (!spec || word === 0) return record;
+
+  record.reads = decodeOperands(word).reads.flatMap(({ location }) =>
+    typeof location === "number"
+      ? [{ register: location, value: read.register(location) | 0 }]
+      : []
+  );
+  const rs = read.register(fields.rs) | 0;
+  const rt = read.register(fields.rt) | 0;
+  const imm = signExtend16(fields.immediate);
+  const uimm = fields.immediate;
+  const branchTarget = (pc + 4 + imm * 4) >>> 0;
+
+  const writeRd = (value: number) => {
+    record.write = { register: fields.rd, value: value | 0 };
+  };
+  const writeRt = (value: number) => {
+    record.write = { register: fields.rt, value: value | 0 };
+  };
+  const branch = (taken: boolean, target = branchTarget) => {
+    record.branchTaken = taken;
+    if (taken) record.nextPc = target >>> 0;
+  };
+  const link = (register: number) => {
+    record.write = { register, value: (pc + 8) | 0 };
+  };
+
+  switch (spec.mnemonic) {
+    case "sll":
+      writeRd(rt << fields.shamt);
+      break;
+    case "srl":
+      writeRd(rt >>> fields.shamt);
+      break;
+    case "sra":
+      writeRd(rt >> fields.shamt);
+      break;
+    case "sllv":
+      writeRd(rt << (rs & 31));
+      break;
+    case "srlv":
+      writeRd(rt >>> (rs & 31));
+      break;
+    case "srav":
+      writeRd(rt >> (rs & 31));
+      break;
+    case "jr":
+      branch(true, rs);
+      break;
+    case "jalr":
+      link(fields.rd);
+      branch(true, rs);
+      break;
+    case "movz":
+      if (rt === 0) writeRd(rs);
+      break;
+    case "movn":
+      if (rt !== 0) writeRd(rs);
+      break;
+    case "mfhi":
+      writeRd(read.hi());
+      break;
+    case "mflo":
+      writeRd(read.lo());
+      break;
+    case "mthi":
+      record.hi = rs;
+      break;
+    case "mtlo":
+      record.lo = rs;
+      break;
+    case "mult":
+      Object.assign(record, splitHiLo(BigInt(rs) * BigInt(rt)));
+      break;
+    case "multu":
+      Object.assign(record, splitHiLo(BigInt(rs >>> 0) * BigInt(rt >>> 0)));
+      break;
+    case "div":
+      // Division by zero leaves an unpredictable result; use 0
+      record.lo = rt === 0 ? 0 : Math.trunc(rs / rt) | 0;
+      record.hi = rt === 0 ? 0 : rs % rt | 0;
+      break;
+    case "divu":
+      record.lo = rt === 0 ? 0 : Math.floor((rs >>> 0) / (rt >>> 0)) | 0;
+      record.hi = rt === 0 ? 0 : (rs >>> 0) % (rt >>> 0) | 0;
+      break;
+    case "madd":
+    case "maddu":
+    case "msub":
+    case "msubu": {
+      const unsigned = spec.mnemonic.endsWith("u");
+      const product = unsigned
+        ? BigInt(rs >>> 0) * BigInt(rt >>> 0)
+        : BigInt(rs) * BigInt(rt);
+      const accumulator = toSigned64(read.hi(), read.lo());
+      Object.assign(
+        record,
+        splitHiLo(
+          spec.mnemonic.startsWith("madd")
+            ? accumulator + product
+            : accumulator - product
+        )
+      );
+      break;
+    }
+    case "mul":
+      writeRd(Math.imul(rs, rt));
+      break;
+    case "clz":
+      writeRd(Math.clz32(rs));
+      break;
+    case "clo":
+      writeRd(Math.clz32(~rs));
+      break;
+    // Overflow traps are not modeled, add and sub wrap like addu and subu
+    case "add":
+    case "addu":
+      writeRd(rs + rt);
+      break;
+    case "sub":
+    case "subu":
+      writeRd(rs - rt);
+      break;
+    case "and":
+      writeRd(rs & rt);
+      break;
+    case "or":
+      writeRd(rs | rt);
+      break;
+    case "xor":
+      writeRd(rs ^ rt);
+      break;
+    case "nor":
+      writeRd(~(rs | rt));
+      break;
+    case "slt":
+      writeRd(rs < rt ? 1 : 0);
+      break;
+    case "sltu":
+      writeRd(rs >>> 0 < rt >>> 0 ? 1 : 0);
+      break;
+    case "bltz":
+      branch(rs < 0);
+      break;
+    case "bgez":
+      branch(rs >= 0);
+      break;
+    case "bltzal":
+      link(31);
+      branch(rs < 0);
+      break;
+    case "bgezal":
+      link(31);
+      branch(rs >= 0);
+      break;
+    case "j":
+    case "jal":
+      if (spec.mnemonic === "jal") link(31);
+      branch(true, ((pc + 4) & 0xf0000000) | (fields.target << 2));
+      break;
+    case "beq":
+      branch(rs === rt);
+      break;
+    case "bne":
+      branch(rs !== rt);
+      break;
+    case "blez":
+      branch(rs <= 0);
+      break;
+    case "bgtz":
+      branch(rs > 0);
+      break;
+    case "addi":
+    case "addiu":
+      writeRt(rs + imm);
+      break;
+    case "slti":
+      writeRt(rs < imm ? 1 : 0);
+      break;
+    case "sltiu":
+      writeRt(rs >>> 0 < imm >>> 0 ? 1 : 0);
+      break;
+    case "andi":
+      writeRt(rs & uimm);
+      break;
+    case "ori":
+      writeRt(rs | uimm);
+      break;
+    case "xori":
+      writeRt(rs ^ uimm);
+      break;
+    case "lui":
+      writeRt(uimm << 16);
+      break;
+    default:
+      if (spec.mnemonic in LOAD_SIZES) {
+        record.memoryAccess = {
+          type: "load",
+          address: (rs + imm) >>> 0,
+          size: LOAD_SIZES[spec.mnemonic].size,
+        };
+        record.write = { register: fields.rt };
+      } else if (spec.mnemonic in STORE_SIZES) {
+        record.memoryAccess = {
+          type: "store",
+          address: (rs + imm) >>> 0,
+          size: STORE_SIZES[spec.mnemonic],
+          value: rt,
+        };
+      }
+    // syscall and break have no effect here
+  }
+
+  // Writes to $zero are discarded
+  if (record.write?.register === 0) {
+    delete record.write;
+  }
+  return record;
+};
+
+/**
+ * Performs the MEM stage of a load or store. Returns the updated record
+ * (with the loaded value) and the updated memory.
+ */
+export const accessMemory = (
+  record: ExecutionRecord,
+  memory: Memory
+): { record: ExecutionRecord; memory: Memory } => {
+  const access = record.memoryAccess;
+  if (!access) return { record, memory };
+
+  const { address } = access;
+  const aligned = address & ~3;
+  const byte = address & 3;
+  const rt =
+    record.reads.find((read) => read.register === record.write?.register)
+      ?.value ?? 0;
+
+  if (access.type === "store") {
+    const value = access.value ?? 0;
+    let next = memory;
+    switch (record.mnemonic) {
+      // Unaligned stores (little-endian): swl writes the high bytes of rt
+      // up to the address, swr the low bytes from the address onwards
+      case "swl":
+        for (let i = 0; i <= byte; i++) {
+          next = writeMemory(
+            next,
+            aligned + i,
+            1,
+            value >>> (8 * (3 - byte + i))
+          );
+        }
+        break;
+      case "swr":
+        for (let i = 0; i < 4 - byte; i++) {
+          next = writeMemory(next, address + i, 1, value >>> (8 * i));
+        }
+        break;
+      default:
+        next = writeMemory(memory, address, access.size, value);
+    }
+    return { record, memory: next };
+  }
+
+  let value: number;
+  switch (record.mnemonic) {
+    case "lwl": {
+      // Unaligned loads merge the loaded bytes into the old value of rt
+      const shift = 8 * (3 - byte);
+      const keep = shift === 0 ? 0 : (1 << shift) - 1;
+      value = (readMemory(memory, aligned, 4) << shift) | (rt & keep);
+      break;
+    }
+    case "lwr": {
+      const shift = 8 * byte;
+      const keep = shift === 0 ? 0 : ~(0xffffffff >>> shift);
+      value = (readMemory(memory, aligned, 4) >>> shift) | (rt & keep);
+      break;
+    }
+    default: {
+      const { size, signed } = LOAD_SIZES[record.mnemonic];
+      const raw = readMemory(memory, address, size);
+      const bits = 32 - size * 8;
+      value = signed ? (raw << bits) >> bits : raw;
+    }
+  }
+
+  value |= 0;
+  return {
+    record: {
+      ...record,
+      memoryAccess: { ...access, value },
+      write: record.write && { ...record.write, value },
+    },
+    memory,
+  };
+};
+
+/** Performs the WB stage: writes the result to the register file and HI/LO. */
+export const writeBack = (
+  record: ExecutionRecord,
+  machine: MachineState
+): MachineState => {
+  const registers = [...machine.registers];
+  if (record.write && record.write.value !== undefined) {
+    registers[record.write.register] = record.write.value;
+  }
+  return {
+    ...machine,
+    registers,
+    hi: record.hi ?? machine.hi,
+    lo: record.lo ?? machine.lo,
+  };
+};
+
+// One instruction of a sequential run, with its complete execution record
+export interface ProgramStep {
+  address: number;
+  word: number;
+  record: ExecutionRecord;
+  inDelaySlot?: boolean; // Executed in the delay slot of a branch or jump
+}
+
+export interface ProgramRun {
+  steps: ProgramStep[];
+  machine: MachineState; // State after the last step
+  truncated: boolean; // Stopped at maxSteps before leaving the program
+}
+
+export interface RunOptions {
+  // Delayed branches: the instruction after a branch or jump always runs
+  // before the transfer takes effect. A transfer in a delay slot is ignored.
+  delaySlot?: boolean;
+}
+
+/**
+ * Runs a program one instruction at a time (no pipeline) from TEXT_BASE
+ * until the PC leaves the text segment or `maxSteps` instructions have run.
+ * This gives the dynamic instruction stream the pipeline has to fetch.
+ */
+export const runProgram = (
+  words: number[],
+  initial: MachineState,
+  maxSteps: number,
+  { delaySlot = false }: RunOptions = {}
+): ProgramRun => {
+  const steps: ProgramStep[] = [];
+  const end = TEXT_BASE + words.length * 4;
+  let machine: MachineState = { ...initial, pc: TEXT_BASE };
+  let delayedPc: number | undefined; // Where to go after the delay slot
+
+  while (machine.pc >= TEXT_BASE && machine.pc < end && machine.pc % 4 === 0) {
+    if (steps.length >= maxSteps) {
+      return { steps, machine, truncated: true };
+    }
+    const { registers, hi, lo } = machine;
+    const address = machine.pc;
+    const word = words[(address - TEXT_BASE) / 4];
+    const executed = executeInstruction(word, address, {
+      register: (register) => registers[register],
+      hi: () => hi,
+      lo: () => lo,
+    });
+    const { record, memory } = accessMemory(executed, machine.memory);
+
+    const inDelaySlot = delayedPc !== undefined;
+    let nextPc = record.nextPc;
+    if (delayedPc !== undefined) {
+      nextPc = delayedPc;
+      delayedPc = undefined;
+    } else if (delaySlot && record.branchTaken !== undefined) {
+      delayedPc = record.branchTaken ? record.nextPc : (address + 8) >>> 0;
+      nextPc = (address + 4) >>> 0;
+    }
+
+    machine = { ...writeBack(record, { ...machine, memory }), pc: nextPc };
+    steps.push(
+      inDelaySlot
+        ? { address, word, record, inDelaySlot }
+        : { address, word, record }
+    );
+  }
+
+  return { steps, machine, truncated: false };
+};
@@ -0,0 +1,69 @@
+// src/lib/mips/memory-image.ts
+
+import { assemble, type AssemblyError } from "./assembler";
+import { DATA_BASE } from "./layout";
+import { writeMemory, type Memory } from "./machine";
+
+export interface MemoryImageResult {
+  memory: Memory;
+  errors: AssemblyError[];
+}
+
+const DIRECTIVE_REGEX =
+  /(^|\s)\.(data|word|half|byte|ascii|asciiz|space|align)\b/m;
+
+/**
+ * Parses memory contents to preload before a run. Accepts either a `.data`
+ * section (assembled with the regular assembler) or a hex dump: one or more
+ * 32-bit hex words per line, optionally preceded by an `address:` prefix.
+ * Words without an address follow the previous ones, starting at DATA_BASE.
+ */
+export const parseMemoryImage = (text: string): MemoryImageResult => {
+  if (DIRECTIVE_REGEX.test(text)) {
+    const hasDataDirective = /^\s*\.data\b/m.test(text);
+    const source = hasDataDirective ? text : `.data\n${text}`;
+    const { data, errors } = assemble(source);
+
+    const memory: Memory = {};
+    data.forEach((byte, offset) => {
+      if (byte !== 0) memory[DATA_BASE + offset] = byte;
+    });
+    return {
+      memory,
+      // Report lines of the text as entered, not of the wrapped source
+      errors: errors.map((error) => ({
+        ...error,
+        line: hasDataDirective ? error.line : error.line - 1,
+      })),
+    };
+  }
+
+  let memory: Memory = {};
+  const errors: AssemblyError[] = [];
+  let address = DATA_BASE;
+
+  text.split("\n").forEach((rawLine, index) => {
+    let line = rawLine.replace(/#.*$/, "").trim();
+    if (line.length === 0) return;
+
+    const addressMatch = /^(?:0x)?([0-9a-f]+)\s*:/i.exec(line);
+    if (addressMatch) {
+      address = parseInt(addressMatch[1], 16);
+      line = line.slice(addressMatch[0].length).trim();
+    }
+
+    for (const token of line.split(/[\s,]+/).filter(Boolean)) {
+      if (!/^(0x)?[0-9a-f]{1,8}$/i.test(token)) {
+        errors.push({
+          line: index + 1,
+          message: `Invalid hex word '${token}'`,
+        });
+        return;
+      }
+      memory = writeMemory(memory, address, 4, parseInt(token, 16));
+      address += 4;
+    }
+  });
+
+  return { memory, errors };
+};
@@ -0,0 +1,152 @@
+// src/lib/mips/operands.ts
+
+import { decodeFields, findSpecByEncoding } from "./isa";
+import { formatRegister, type RegisterNameStyle } from "./registers";
+
+// Where an operand comes from: a register field of the instruction word,
+// the implicit return address register, or the HI/LO registers
+export type OperandField = "rs" | "rt" | "rd" | "ra" | "hi" | "lo";
+
+// Storage read or written by an instruction: a GPR number, HI or LO
+export type OperandLocation = number | "hi" | "lo";
+
+export interface Operand {
+  field: OperandField;
+  location: OperandLocation;
+}
+
+export interface OperandSets {
+  reads: Operand[];
+  writes: Operand[];
+}
+
+type OperandTableEntry = {
+  reads: readonly OperandField[];
+  writes: readonly OperandField[];
+};
+
+const entry = (
+  reads: readonly OperandField[],
+  writes: readonly OperandField[] = []
+): OperandTableEntry => ({ reads, writes });
+
+// Exact read and write sets, by mnemonic (the spec selected by opcode and
+// funct or rt). Conditional writes (movz/movn) count as writes.
+const OPERAND_TABLE: Record<string, OperandTableEntry> = {
+  // Shifts by a constant read rt only; variable shifts read rs as well
+  sll: entry(["rt"], ["rd"]),
+  srl: entry(["rt"], ["rd"]),
+  sra: entry(["rt"], ["rd"]),
+  sllv: entry(["rt", "rs"], ["rd"]),
+  srlv: entry(["rt", "rs"], ["rd"]),
+  srav: entry(["rt", "rs"], ["rd"]),
+  jr: entry(["rs"]),
+  jalr: entry(["rs"], ["rd"]),
+  movz: entry(["rs", "rt"], ["rd"]),
+  movn: entry(["rs", "rt"], ["rd"]),
+  syscall: entry([]),
+  break: entry([]),
+  mfhi: entry(["hi"], ["rd"]),
+  mthi: entry(["rs"], ["hi"]),
+  mflo: entry(["lo"], ["rd"]),
+  mtlo: entry(["rs"], ["lo"]),
+  mult: entry(["rs", "rt"], ["hi", "lo"]),
+  multu: entry(["rs", "rt"], ["hi", "lo"]),
+  div: entry(["rs", "rt"], ["hi", "lo"]),
+  divu: entry(["rs", "rt"], ["hi", "lo"]),
+  add: entry(["rs", "rt"], ["rd"]),
+  addu: entry(["rs", "rt"], ["rd"]),
+  sub: entry(["rs", "rt"], ["rd"]),
+  subu: entry(["rs", "rt"], ["rd"]),
+  and: entry(["rs", "rt"], ["rd"]),
+  or: entry(["rs", "rt"], ["rd"]),
+  xor: entry(["rs", "rt"], ["rd"]),
+  nor: entry(["rs", "rt"], ["rd"]),
+  slt: entry(["rs", "rt"], ["rd"]),
+  sltu: entry(["rs", "rt"], ["rd"]),
+
+  bltz: entry(["rs"]),
+  bgez: entry(["rs"]),
+  bltzal: entry(["rs"], ["ra"]),
+  bgezal: entry(["rs"], ["ra"]),
+
+  j: entry([]),
+  jal: entry([], ["ra"]),
+
+  beq: entry(["rs", "rt"]),
+  bne: entry(["rs", "rt"]),
+  blez: entry(["rs"]),
+  bgtz: entry(["rs"]),
+
+  addi: entry(["rs"], ["rt"]),
+  addiu: entry(["rs"], ["rt"]),
+  slti: entry(["rs"], ["rt"]),
+  sltiu: entry(["rs"], ["rt"]),
+  andi: entry(["rs"], ["rt"]),
+  ori: entry(["rs"], ["rt"]),
+  xori: entry(["rs"], ["rt"]),
+  lui: entry([], ["rt"]),
+
+  // Multiply-accumulate reads and writes HI/LO
+  madd: entry(["rs", "rt", "hi", "lo"], ["hi", "lo"]),
+  maddu: entry(["rs", "rt", "hi", "lo"], ["hi", "lo"]),
+  mul: entry(["rs", "rt"], ["rd"]),
+  msub: entry(["rs", "rt", "hi", "lo"], ["hi", "lo"]),
+  msubu: entry(["rs", "rt", "hi", "lo"], ["hi", "lo"]),
+  clz: entry(["rs"], ["rd"]),
+  clo: entry(["rs"], ["rd"]),
+
+  // Unaligned loads merge into the old value of rt
+  lb: entry(["rs"], ["rt"]),
+  lh: entry(["rs"], ["rt"]),
+  lwl: entry(["rs", "rt"], ["rt"]),
+  lw: entry(["rs"], ["rt"]),
+  lbu: entry(["rs"], ["rt"]),
+  lhu: entry(["rs"], ["rt"]),
+  lwr: entry(["rs", "rt"], ["rt"]),
+
+  sb: entry(["rs", "rt"]),
+  sh: entry(["rs", "rt"]),
+  swl: entry(["rs", "rt"]),
+  sw: entry(["rs", "rt"]),
+  swr: entry(["rs", "rt"]),
+};
+
+/**
+ * Decodes the registers an instruction word reads and writes. $zero is left
+ * out of both sets: it always reads as 0 and writes to it are discarded.
+ * Unknown encodings read and write nothing.
+ */
+export const decodeOperands = (word: number): OperandSets => {
+  const fields = decodeFields(word);
+  const spec = findSpecByEncoding(fields.opcode, fields.funct, fields.rt);
+  const operands = spec && OPERAND_TABLE[spec.mnemonic];
+  if (!operands) return { reads: [], writes: [] };
+
+  const locate = (field: OperandField): Operand => {
+    switch (field) {
+      case "ra":
+        return { field, location: 31 };
+      case "hi":
+      case "lo":
+        return { field, location: field };
+      default:
+        return { field, location: fields[field] };
+    }
+  };
+  const isRelevant = ({ location }: Operand) => location !== 0;
+
+  return {
+    reads: operands.reads.map(locate).filter(isRelevant),
+    writes: operands.writes.map(locate).filter(isRelevant),
+  };
+};
+
+/** Formats an operand location, e.g. `$t0` or `HI`. */
+export const formatLocation = (
+  location: OperandLocation,
+  style: RegisterNameStyle = "abi"
+): string =>
+  typeof location === "number"
+    ? formatRegister(location, style)
+    : location.toUpperCase();
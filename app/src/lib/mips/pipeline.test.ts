@@ -0,0 +1,401 @@
+// src/lib/mips/pipeline.test.ts
+//
+// Golden pipeline diagrams for the textbook examples of Patterson &
+// Hennessy, "Computer Organization and Design" (chapter 4), with and
+// without forwarding. Each row shows one instruction per cycle: a stage,
+// "*" for a stall in ID, "x" for a flushed slot and "." for nothing.
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { assemble } from "./assembler";
+import { createMachineState } from "./machine";
+import {
+  decodeInstruction,
+  simulatePipeline,
+  DEFAULT_PIPELINE_CONFIG,
+  STAGE_NAMES,
+  type PipelineConfig,
+  type PipelineSimulation,
+} from "./pipeline";
+
+const simulate = (
+  source: string,
+  config: Partial<PipelineConfig> = {}
+): PipelineSimulation => {
+  const { errors, ...program } = assemble(source);
+  assert.deepEqual(errors, []);
+  return simulatePipeline(
+    program.instructions,
+    createMachineState({ data: program.data }),
+    { ...DEFAULT_PIPELINE_CONFIG, ...config }
+  );
+};
+
+const diagram = ({ instructions, trace }: PipelineSimulation): string[] =>
+  instructions.map(
+    (_, row) =>
+      trace
+        .map(({ cells }) => {
+          const cell = cells[row];
+          switch (cell.kind) {
+            case "stage":
+              return STAGE_NAMES[cell.stage ?? 0].padEnd(4);
+            case "stall":
+              return "*".padEnd(4);
+            case "flush":
+              return "x".padEnd(4);
+            default:
+              return ".".padEnd(4);
+          }
+        })
+        .join("")
+        .replace(/[.\s]+$/, "") // Nothing after WB
+  );
+
+interface GoldenExample {
+  name: string;
+  source: string;
+  forwarding: { cycles: number; diagram: string[] };
+  noForwarding: { cycles: number; diagram: string[] };
+}
+
+const EXAMPLES: GoldenExample[] = [
+  {
+    // Every dependence on $2 is resolved by forwarding
+    name: "dependences on $2",
+    source: `
+      sub $2, $1, $3
+      and $12, $2, $5
+      or  $13, $6, $2
+      add $14, $2, $2
+      sw  $15, 100($2)`,
+    forwarding: {
+      cycles: 9,
+      diagram: [
+        "IF  ID  EX  MEM WB",
+        ".   IF  ID  EX  MEM WB",
+        ".   .   IF  ID  EX  MEM WB",
+        ".   .   .   IF  ID  EX  MEM WB",
+        ".   .   .   .   IF  ID  EX  MEM WB",
+      ],
+    },
+    noForwarding: {
+      cycles: 11,
+      diagram: [
+        "IF  ID  EX  MEM WB",
+        ".   IF  ID  *   *   EX  MEM WB",
+        ".   .   .   .   IF  ID  EX  MEM WB",
+        ".   .   .   .   .   IF  ID  EX  MEM WB",
+        ".   .   .   .   .   .   IF  ID  EX  MEM WB",
+      ],
+    },
+  },
+  {
+    // A load-use hazard needs one stall even with forwarding
+    name: "load-use hazard",
+    source: `
+      lw  $2, 20($1)
+      and $4, $2, $5
+      or  $8, $2, $6
+      add $9, $4, $2
+      slt $1, $6, $7`,
+    forwarding: {
+      cycles: 10,
+      diagram: [
+        "IF  ID  EX  MEM WB",
+        ".   IF  ID  *   EX  MEM WB",
+        ".   .   .   IF  ID  EX  MEM WB",
+        ".   .   .   .   IF  ID  EX  MEM WB",
+        ".   .   .   .   .   IF  ID  EX  MEM WB",
+      ],
+    },
+    noForwarding: {
+      cycles: 12,
+      diagram: [
+        "IF  ID  EX  MEM WB",
+        ".   IF  ID  *   *   EX  MEM WB",
+        ".   .   .   .   IF  ID  EX  MEM WB",
+        ".   .   .   .   .   IF  ID  *   EX  MEM WB",
+        ".   .   .   .   .   .   .   IF  ID  EX  MEM WB",
+      ],
+    },
+  },
+  {
+    // a = b + e; c = b + f, in source order
+    name: "code before scheduling",
+    source: `
+      lw  $t1, 0($t0)
+      lw  $t2, 4($t0)
+      add $t3, $t1, $t2
+      sw  $t3, 12($t0)
+      lw  $t4, 8($t0)
+      add $t5, $t1, $t4
+      sw  $t5, 16($t0)`,
+    forwarding: {
+      cycles: 13,
+      diagram: [
+        "IF  ID  EX  MEM WB",
+        ".   IF  ID  EX  MEM WB",
+        ".   .   IF  ID  *   EX  MEM WB",
+        ".   .   .   .   IF  ID  EX  MEM WB",
+        ".   .   .   .   .   IF  ID  EX  MEM WB",
+        ".   .   .   .   .   .   IF  ID  *   EX  MEM WB",
+        ".   .   .   .   .   .   .   .   IF  ID  EX  MEM WB",
+      ],
+    },
+    noForwarding: {
+      cycles: 19,
+      diagram: [
+        "IF  ID  EX  MEM WB",
+        ".   IF  ID  EX  MEM WB",
+        ".   .   IF  ID  *   *   EX  MEM WB",
+        ".   .   .   .   .   IF  ID  *   *   EX  MEM WB",
+        ".   .   .   .   .   .   .   .   IF  ID  EX  MEM WB",
+        ".   .   .   .   .   .   .   .   .   IF  ID  *   *   EX  MEM WB",
+        ".   .   .   .   .   .   .   .   .   .   .   .   IF  ID  *   *   EX  MEM WB",
+      ],
+    },
+  },
+  {
+    // The same code with the third load moved up, which
+    // removes both load-use stalls when forwarding
+    name: "code after scheduling",
+    source: `
+      lw  $t1, 0($t0)
+      lw  $t2, 4($t0)
+      lw  $t4, 8($t0)
+      add $t3, $t1, $t2
+      sw  $t3, 12($t0)
+      add $t5, $t1, $t4
+      sw  $t5, 16($t0)`,
+    forwarding: {
+      cycles: 11,
+      diagram: [
+        "IF  ID  EX  MEM WB",
+        ".   IF  ID  EX  MEM WB",
+        ".   .   IF  ID  EX  MEM WB",
+        ".   .   .   IF  ID  EX  MEM WB",
+        ".   .   .   .   IF  ID  EX  MEM WB",
+        ".   .   .   .   .   IF  ID  EX  MEM WB",
+        ".   .   .   .   .   .   IF  ID  EX  MEM WB",
+      ],
+    },
+    noForwarding: {
+      cycles: 16,
+      diagram: [
+        "IF  ID  EX  MEM WB",
+        ".   IF  ID  EX  MEM WB",
+        ".   .   IF  ID  EX  MEM WB",
+        ".   .   .   IF  ID  *   EX  MEM WB",
+        ".   .   .   .   .   IF  ID  *   *   EX  MEM WB",
+        ".   .   .   .   .   .   .   .   IF  ID  EX  MEM WB",
+        ".   .   .   .   .   .   .   .   .   IF  ID  *   *   EX  MEM WB",
+      ],
+    },
+  },
+  {
+    // A taken branch resolved in EX flushes the two
+    // instructions fetched after it
+    name: "taken branch",
+    source: `
+              sub $10, $4, $8
+              beq $1, $3, target
+              and $12, $2, $5
+              or  $13, $2, $6
+              add $14, $4, $2
+              slt $15, $6, $7
+      target: lw  $4, 50($7)`,
+    forwarding: {
+      cycles: 9,
+      diagram: [
+        "IF  ID  EX  MEM WB",
+        ".   IF  ID  EX  MEM WB",
+        ".   .   IF  ID  x   x   x",
+        ".   .   .   IF  x   x   x   x",
+        ".   .   .   .   IF  ID  EX  MEM WB",
+      ],
+    },
+    noForwarding: {
+      cycles: 9,
+      diagram: [
+        "IF  ID  EX  MEM WB",
+        ".   IF  ID  EX  MEM WB",
+        ".   .   IF  ID  x   x   x",
+        ".   .   .   IF  x   x   x   x",
+        ".   .   .   .   IF  ID  EX  MEM WB",
+      ],
+    },
+  },
+];
+
+describe("golden pipeline diagrams", () => {
+  EXAMPLES.forEach(({ name, source, forwarding, noForwarding }) => {
+    it(`${name}, with forwarding`, () => {
+      const simulation = simulate(source);
+      assert.deepEqual(diagram(simulation), forwarding.diagram);
+      assert.equal(simulation.totalCycles, forwarding.cycles);
+    });
+
+    it(`${name}, without forwarding`, () => {
+      const simulation = simulate(source, { forwardingEnabled: false });
+      assert.deepEqual(diagram(simulation), noForwarding.diagram);
+      assert.equal(simulation.totalCycles, noForwarding.cycles);
+    });
+  });
+});
+
+describe("detectHazards", () => {
+  it("reports a load-use hazard with one stall and one MEM/WB forward", () => {
+    const { hazards, stalls, forwardings } = simulate(`
+      lw  $t0, 0($gp)
+      add $t1, $t0, $t0`);
+    assert.equal(hazards[1].type, "RAW");
+    assert.equal(hazards[1].producer, 0);
+    assert.equal(hazards[1].distance, 1);
+    assert.equal(stalls[1], 1);
+    // $t0 is read by both operands but forwarded once
+    assert.deepEqual(
+      forwardings[1].map(({ from, register, path, cycle }) => ({
+        from,
+        register,
+        path,
+        cycle,
+      })),
+      [{ from: 0, register: "$8", path: "mem-wb-to-ex", cycle: 5 }]
+    );
+  });
+
+  it("stalls one cycle longer without a split-cycle register file", () => {
+    const source = `
+      add $t0, $t1, $t2
+      add $t3, $t0, $t0`;
+    const config = { forwardingEnabled: false };
+    assert.equal(simulate(source, config).stalls[1], 2);
+    assert.equal(
+      simulate(source, { ...config, splitCycleRegisterFile: false }).stalls[1],
+      3
+    );
+  });
+
+  it("forwards a loaded value straight to a store with MEM/WB → MEM", () => {
+    const source = `
+      lw $t0, 0($gp)
+      sw $t0, 4($gp)`;
+    assert.equal(simulate(source).stalls[1], 0);
+    assert.equal(
+      simulate(source, { forwardingPaths: ["ex-mem-to-ex", "mem-wb-to-ex"] })
+        .stalls[1],
+      1
+    );
+  });
+
+  it("ignores every hazard in an ideal pipeline", () => {
+    const { stalls, totalStalls, totalCycles } = simulate(
+      `
+      lw  $t0, 0($gp)
+      add $t1, $t0, $t0`,
+      { stallsEnabled: false }
+    );
+    assert.deepEqual(stalls, { 0: 0, 1: 0 });
+    assert.equal(totalStalls, 0);
+    assert.equal(totalCycles, 6);
+  });
+});
+
+describe("analyzeDependencies", () => {
+  it("lists a register read by two operands once", () => {
+    const { dependencies } = simulate(`
+      addi $t0, $zero, 1
+      add  $t1, $t0, $t0`);
+    assert.deepEqual(
+      dependencies[1].map(({ type, from, location }) => ({
+        type,
+        from,
+        location,
+      })),
+      [{ type: "RAW", from: 0, location: 8 }]
+    );
+  });
+});
+
+describe("trace", () => {
+  const simulation = simulate(
+    `
+      addi $t0, $zero, 5
+      add  $t1, $t0, $t0
+      sub  $t2, $t1, $t0`,
+    { forwardingEnabled: false }
+  );
+
+  it("has one entry per cycle up to the last WB", () => {
+    assert.equal(simulation.trace.length, simulation.totalCycles);
+    simulation.trace.forEach(({ cycle }, index) =>
+      assert.equal(cycle, index + 1)
+    );
+  });
+
+  it("is finished only in the last cycle", () => {
+    const finished = simulation.trace.map(({ isFinished }) => isFinished);
+    assert.deepEqual(finished.slice(0, -1), finished.slice(0, -1).fill(false));
+    assert.equal(finished[finished.length - 1], true);
+  });
+
+  it("shows one stall cell per stall cycle of each row", () => {
+    simulation.instructions.forEach((_, row) => {
+      const stallCells = simulation.trace.filter(
+        ({ cells }) => cells[row].kind === "stall"
+      ).length;
+      assert.equal(stallCells, simulation.stalls[row]);
+    });
+  });
+
+  it("counts down the stall cycles of the instruction held in ID", () => {
+    // add is in ID in cycles 3-5, then sub in cycles 6-8
+    assert.deepEqual(
+      simulation.trace.slice(2, 8).map(({ stallCycles }) => stallCycles),
+      [2, 2, 1, 2, 2, 1]
+    );
+  });
+
+  it("writes registers back in WB", () => {
+    const { trace } = simulation;
+    // add is in WB in cycle 8
+    assert.equal(trace[6].machine.registers[9], 0);
+    assert.equal(trace[7].machine.registers[9], 10);
+    assert.deepEqual(
+      trace[trace.length - 1].machine.registers.slice(8, 11),
+      [5, 10, 5]
+    );
+  });
+});
+
+describe("decodeInstruction", () => {
+  it("decodes an R-type instruction", () => {
+    // add $t1, $t0, $t2
+    const usage = decodeInstruction("010a4820");
+    assert.equal(usage.type, "R");
+    assert.equal(usage.rs, 8);
+    assert.equal(usage.rt, 10);
+    assert.equal(usage.rd, 9);
+    assert.equal(usage.isLoad, false);
+    assert.deepEqual(
+      usage.reads.map(({ location }) => location),
+      [8, 10]
+    );
+  });
+
+  it("writes rt for loads", () => {
+    // lw $t0, 4($sp)
+    const usage = decodeInstruction("8fa80004");
+    assert.equal(usage.isLoad, true);
+    assert.equal(usage.isStore, false);
+    assert.equal(usage.rd, 8);
+  });
+
+  it("writes nothing for stores", () => {
+    // sw $t0, 4($sp)
+    const usage = decodeInstruction("afa80004");
+    assert.equal(usage.isStore, true);
+    assert.deepEqual(usage.writes, []);
+  });
+});
@@ -0,0 +1,957 @@
+// src/lib/mips/pipeline.ts
+//
+// The 5-stage pipeline engine, free of React and the DOM:
+// - decode: read and write sets of an instruction word (`decodeInstruction`)
+// - analyze: executed path, hazards, stalls, forwarding and dependencies of
+//   a program for a pipeline configuration (`analyzeProgram`)
+// - trace: what happens in every cycle of the run (`buildTrace`)
+// - simulate: both at once (`simulatePipeline`)
+
+import {
+  createBranchPredictor,
+  type BranchPrediction,
+  type BranchPredictorKind,
+} from "./branch-predictor";
+import {
+  operandSource,
+  registerFileReadCycle,
+  ALL_FORWARDING_PATHS,
+  FORWARDING_PATHS,
+  type ForwardingPath,
+  type OperandReader,
+} from "./forwarding";
+import { decodeFields, findSpecByEncoding, signExtend16 } from "./isa";
+import { TEXT_BASE } from "./layout";
+import {
+  accessMemory,
+  runProgram,
+  writeBack,
+  type ExecutionRecord,
+  type MachineState,
+} from "./machine";
+import {
+  decodeOperands,
+  formatLocation,
+  type Operand,
+  type OperandLocation,
+} from "./operands";
+
+export const STAGE_NAMES = ["IF", "ID", "EX", "MEM", "WB"] as const;
+export type StageName = (typeof STAGE_NAMES)[number];
+
+const ID_STAGE = STAGE_NAMES.indexOf("ID");
+const EX_STAGE = STAGE_NAMES.indexOf("EX");
+const MEM_STAGE = STAGE_NAMES.indexOf("MEM");
+const WB_STAGE = STAGE_NAMES.indexOf("WB");
+
+// Stage where conditional branches are resolved. Jumps always resolve in ID.
+export type BranchResolutionStage = "ID" | "EX";
+
+// Pipeline design being simulated
+export interface PipelineConfig {
+  stallsEnabled: boolean; // Detect hazards and stall; off for an ideal pipeline
+  forwardingEnabled: boolean;
+  forwardingPaths: ForwardingPath[]; // Paths of the forwarding unit, when enabled
+  splitCycleRegisterFile: boolean; // Written in the first half of a cycle, read in the second
+  branchResolutionStage: BranchResolutionStage;
+  branchPredictor: BranchPredictorKind;
+  delaySlotEnabled: boolean; // Delayed branches, as in classic MIPS
+  outOfOrderEnabled: boolean; // Analyze dependencies for out-of-order issue
+}
+
+export const DEFAULT_PIPELINE_CONFIG: PipelineConfig = {
+  stallsEnabled: true,
+  forwardingEnabled: true,
+  forwardingPaths: ALL_FORWARDING_PATHS,
+  splitCycleRegisterFile: true,
+  branchResolutionStage: "EX",
+  branchPredictor: "not-taken",
+  delaySlotEnabled: false,
+  outOfOrderEnabled: false,
+};
+
+// Stop runaway loops: at most this many instructions are executed
+export const MAX_EXECUTED_INSTRUCTIONS = 200;
+
+export type InstructionType = "R" | "I" | "J";
+export type HazardType = "RAW" | "WAR" | "WAW" | "NONE";
+export type DependencyType = Exclude<HazardType, "NONE">;
+
+// A dependency of an instruction on an older one. RAW is a true (data)
+// dependency; WAR (anti) and WAW (output) are name dependencies, which
+// register renaming would remove.
+export interface Dependency {
+  type: DependencyType;
+  kind: "true" | "name";
+  from: number; // Older instruction
+  to: number;
+  location: OperandLocation;
+  matters: boolean; // Can cause a hazard in the selected pipeline model
+}
+
+export interface RegisterUsage {
+  rs: number;
+  rt: number;
+  rd: number;
+  opcode: number;
+  funct: number;
+  type: InstructionType;
+  isLoad: boolean; // Add this to detect load instructions
+  isStore: boolean;
+  reads: Operand[]; // Exact read and write sets, including HI/LO and $ra
+  writes: Operand[];
+}
+
+export interface HazardInfo {
+  type: HazardType;
+  description: string;
+  canForward: boolean;
+  stallCycles: number;
+  producer?: number; // Row of the instruction the hazard depends on
+  distance?: number; // Rows between producer and consumer
+}
+
+export interface ForwardingInfo {
+  from: number;
+  to: number;
+  fromStage: StageName;
+  toStage: StageName;
+  register: string;
+  cycle: number; // Cycle in which the consumer receives the value
+  path: ForwardingPath;
+}
+
+// One row of the pipeline table. Rows follow the fetch order, so a taken
+// branch or jump is followed by the wrong-path instructions fetched before
+// it resolved; those are flushed and never execute.
+export interface FetchedInstruction {
+  address: number;
+  record?: ExecutionRecord; // Outcome from the sequential run, unless flushed
+  flushedBy?: number; // Row of the branch or jump that flushed it
+  flushedAfter?: number; // Last stage reached before the flush
+  prediction?: { taken: boolean; correct: boolean }; // Conditional branches
+  isDelaySlot?: boolean; // Runs in the delay slot of the transfer before it
+}
+
+// One cell of the pipeline diagram: the stage an instruction occupies, a
+// stall (held in ID), a bubble left by a flush, or nothing
+export interface TraceCell {
+  kind: "empty" | "stage" | "stall" | "flush";
+  stage: number | null;
+  forwards: ForwardingInfo[]; // Values the instruction receives this cycle
+}
+
+// Register file, memory and results as seen at the end of a cycle
+export interface FunctionalState {
+  machine: MachineState;
+  executions: Record<number, ExecutionRecord>;
+  executedStages: Record<number, number>; // Last stage whose effects were applied
+}
+
+// Everything that happens in one cycle
+export interface CycleTrace extends FunctionalState {
+  cycle: number;
+  cells: TraceCell[]; // One per row
+  instructionStages: Record<number, number | null>;
+  stallCycles: number; // Stall cycles left for the instruction held in ID
+  isFinished: boolean;
+}
+
+// Decodes the registers an instruction reads and writes
+export const decodeInstruction = (hexInstruction: string): RegisterUsage => {
+  const word = parseInt(hexInstruction, 16);
+  const { opcode, rs, rt, funct } = decodeFields(word);
+  const spec = findSpecByEncoding(opcode, funct, rt);
+  const { reads, writes } = decodeOperands(word);
+
+  // General-purpose register written, if any (rt for loads and immediates,
+  // rd for R-type, $ra for links)
+  const destination = writes.find(
+    ({ location }) => typeof location === "number"
+  )?.location;
+
+  return {
+    rs,
+    rt,
+    rd: typeof destination === "number" ? destination : 0,
+    opcode,
+    funct: spec?.funct ?? 0,
+    type: spec?.format ?? "R",
+    isLoad: opcode >= 32 && opcode <= 38, // lb through lwr
+    isStore: opcode >= 40 && opcode <= 46, // sb through swr
+    reads,
+    writes,
+  };
+};
+
+// Branches and jumps whose target is known in ID
+const JUMP_MNEMONICS = new Set(["j", "jal", "jr", "jalr"]);
+
+// Wrong-path fetches made after a control transfer at `address` before it
+// resolves in stage `resolvedIn`. One instruction is fetched per cycle, so
+// the k-th fetch after the transfer has reached stage `resolvedIn - k` when
+// it is flushed. Without a prediction the fetch continues sequentially.
+// With a delay slot, the first fetch is the slot instruction, which always
+// executes, so wrong-path fetches start at the second one.
+const wrongPathFetches = (
+  address: number,
+  nextPc: number,
+  resolvedIn: number,
+  prediction: BranchPrediction | undefined,
+  delaySlot: boolean
+): { address: number; flushedAfter: number }[] => {
+  const first = delaySlot ? 2 : 1;
+  const fallThrough = address + first * 4;
+  const fetchFrom = (start: number, flushedIn: number, last = flushedIn) =>
+    Array.from({ length: Math.max(0, last - first + 1) }, (_, i) => ({
+      address: start + i * 4,
+      flushedAfter: flushedIn - (first + i),
+    }));
+
+  if (prediction?.stage === "ID" && prediction.taken && !delaySlot) {
+    // The fall-through fetched while decoding is flushed in ID, when the
+    // fetch is redirected to the target
+    const squashed = fetchFrom(fallThrough, ID_STAGE, 1);
+    if (nextPc !== fallThrough || resolvedIn === ID_STAGE) {
+      return nextPc === fallThrough ? [] : squashed;
+    }
+    // Mispredicted: the target fetched after ID is flushed as well
+    return [
+      ...squashed,
+      { address: prediction.target ?? fallThrough, flushedAfter: 0 },
+    ];
+  }
+
+  // A BTB redirects the next fetch. With a delay slot, a prediction made in
+  // ID is also in time for the fetch after the slot.
+  const predictedPc =
+    prediction?.taken && (prediction.stage === "IF" || delaySlot)
+      ? prediction.target ?? fallThrough
+      : fallThrough;
+  return predictedPc === nextPc ? [] : fetchFrom(predictedPc, resolvedIn);
+};
+
+// Runs the program to find the instructions actually executed, then lays
+// them out in fetch order. Each control transfer is followed by the
+// wrong-path instructions fetched before it resolved, which depend on the
+// branch predictor. With a delay slot they follow the slot instruction.
+export const buildInstructionStream = (
+  program: string[],
+  machine: MachineState,
+  branchResolutionStage: BranchResolutionStage,
+  branchPredictor: BranchPredictorKind,
+  delaySlot: boolean
+): {
+  instructions: string[];
+  fetches: FetchedInstruction[];
+  isTruncated: boolean;
+} => {
+  const { steps, truncated } = runProgram(
+    program.map((inst) => parseInt(inst, 16)),
+    machine,
+    MAX_EXECUTED_INSTRUCTIONS,
+    { delaySlot }
+  );
+  const predictor = createBranchPredictor(branchPredictor);
+  const instructions: string[] = [];
+  const fetches: FetchedInstruction[] = [];
+  // Words past the end of the program are fetched as nops
+  const fetchWord = (address: number) =>
+    program[(address - TEXT_BASE) / 4] ?? "00000000";
+
+  // Wrong-path fetches waiting for the delay slot instruction to be placed
+  let afterDelaySlot: FetchedInstruction[] = [];
+  const pushFetch = (fetch: FetchedInstruction) => {
+    instructions.push(fetchWord(fetch.address));
+    fetches.push(fetch);
+  };
+
+  steps.forEach(({ address, word, record, inDelaySlot }) => {
+    const row = fetches.length;
+    const fetch: FetchedInstruction = inDelaySlot
+      ? { address, record, isDelaySlot: true }
+      : { address, record };
+    pushFetch(fetch);
+    if (inDelaySlot) {
+      afterDelaySlot.forEach(pushFetch);
+      afterDelaySlot = [];
+      return;
+    }
+    if (record.branchTaken === undefined) return;
+
+    // Jumps are always taken and resolve in ID; the predictor only
+    // handles conditional branches
+    const isJump = JUMP_MNEMONICS.has(record.mnemonic);
+    const resolvedIn = isJump
+      ? ID_STAGE
+      : STAGE_NAMES.indexOf(branchResolutionStage);
+    let prediction: BranchPrediction | undefined;
+    if (!isJump) {
+      const target =
+        (address + 4 + signExtend16(decodeFields(word).immediate) * 4) >>> 0;
+      prediction = predictor.predict(address, target);
+      predictor.update(address, record.branchTaken, target);
+      fetch.prediction = {
+        taken: prediction.taken,
+        correct:
+          prediction.taken === record.branchTaken &&
+          (!prediction.taken || prediction.target === record.nextPc),
+      };
+    }
+
+    const resumePc = record.branchTaken
+      ? record.nextPc
+      : address + (delaySlot ? 8 : 4);
+    const wrongPath = wrongPathFetches(
+      address,
+      resumePc,
+      resolvedIn,
+      prediction,
+      delaySlot
+    ).map((fetch) => ({ ...fetch, flushedBy: row }));
+    if (delaySlot) {
+      afterDelaySlot = wrongPath;
+    } else {
+      wrongPath.forEach(pushFetch);
+    }
+  });
+
+  return { instructions, fetches, isTruncated: truncated };
+};
+
+export const isFlushed = (fetch: FetchedInstruction | undefined) =>
+  fetch?.flushedBy !== undefined;
+
+// Detects the data hazards of every instruction against all older
+// instructions still in the pipeline. Name dependencies (WAR, WAW) cannot
+// stall an in-order pipeline, so they are only reported out of order.
+// Registers are read in ID, in the producer's WB with a split-cycle register
+// file (`splitCycle`) or the cycle after, and results are forwarded to EX,
+// or to ID for branches resolved there. Stalls hold the consumer in ID until
+// every operand can be read or forwarded:
+// - without forwarding, until the register file has the value;
+// - otherwise, until a path of `forwardingPaths` has the value in the cycle
+//   the stage reading it needs it (see `operandSource`).
+export const detectHazards = (
+  instructions: string[],
+  fetches: FetchedInstruction[],
+  registerUsage: Record<number, RegisterUsage>,
+  forwardingPaths: readonly ForwardingPath[],
+  splitCycle: boolean,
+  stallsEnabled: boolean,
+  branchResolutionStage: BranchResolutionStage,
+  outOfOrder: boolean
+): [
+  Record<number, HazardInfo>,
+  Record<number, ForwardingInfo[]>,
+  Record<number, number>
+] => {
+  const hazards: Record<number, HazardInfo> = {};
+  const forwardings: Record<number, ForwardingInfo[]> = {};
+  const stalls: Record<number, number> = {};
+
+  // Initialize all instructions with no hazard
+  instructions.forEach((_, index) => {
+    hazards[index] = {
+      type: "NONE",
+      description: "No hazard",
+      canForward: false,
+      stallCycles: 0,
+    };
+    forwardings[index] = [];
+    stalls[index] = 0;
+  });
+
+  // If stalls are disabled, skip hazard detection entirely
+  if (!stallsEnabled) {
+    return [hazards, forwardings, stalls];
+  }
+
+  // Cycle in which each instruction enters EX, once its stalls are known
+  const exCycles: number[] = [];
+  let precedingStalls = 0;
+
+  for (let i = 0; i < instructions.length; i++) {
+    // First cycle in ID, after the stalls of older instructions
+    const idCycle = i + 2 + precedingStalls;
+    const currentInst = registerUsage[i];
+
+    // Flushed instructions neither read nor write registers
+    if (isFlushed(fetches[i])) {
+      exCycles[i] = idCycle + 1;
+      continue;
+    }
+
+    // Branches resolved in ID (and register jumps) need operands in ID
+    const record = fetches[i].record;
+    const readsInId =
+      record?.branchTaken !== undefined &&
+      (JUMP_MNEMONICS.has(record.mnemonic) || branchResolutionStage === "ID");
+
+    // Youngest older instruction writing `location` that has not yet
+    // written it back when this one is in ID
+    const findProducer = (location: OperandLocation) => {
+      for (let j = i - 1; j >= 0; j--) {
+        const writes = registerUsage[j].writes;
+        if (
+          isFlushed(fetches[j]) ||
+          !writes.some((write) => write.location === location)
+        ) {
+          continue;
+        }
+        return registerFileReadCycle(exCycles[j], splitCycle) > idCycle
+          ? j
+          : undefined;
+      }
+      return undefined;
+    };
+
+    const dependencies = currentInst.reads.flatMap(({ field, location }) => {
+      const producer = findProducer(location);
+      if (producer === undefined) return [];
+
+      // Stages that can take the value: the data of a store is only
+      // needed in MEM, so it can also be forwarded there
+      const readers: OperandReader[] = readsInId
+        ? ["ID"]
+        : currentInst.isStore && field === "rt"
+        ? ["EX", "MEM"]
+        : ["EX"];
+      return [
+        {
+          field,
+          location,
+          producer,
+          isLoad: registerUsage[producer].isLoad,
+          exCycle: exCycles[producer],
+          readers,
+        },
+      ];
+    });
+    type OperandDependency = (typeof dependencies)[number];
+
+    // Where an operand comes from if this instruction enters EX in `exCycle`
+    const sourceAt = (dependency: OperandDependency, exCycle: number) => {
+      for (const reader of dependency.readers) {
+        const readCycle =
+          reader === "ID"
+            ? exCycle - 1
+            : reader === "EX"
+            ? exCycle
+            : exCycle + 1;
+        const source = operandSource(
+          reader,
+          readCycle,
+          dependency.exCycle,
+          dependency.isLoad,
+          forwardingPaths,
+          splitCycle
+        );
+        if (source) return { source, reader, readCycle };
+      }
+      return undefined;
+    };
+    // Earliest cycle in which EX can start with every given operand
+    const firstExCycle = (operands: OperandDependency[]) => {
+      let exCycle = idCycle + 1;
+      while (operands.some((operand) => !sourceAt(operand, exCycle))) {
+        exCycle++;
+      }
+      return exCycle;
+    };
+
+    // Operands are all read in the same cycle, so stall until every one of
+    // them is available at once
+    exCycles[i] = firstExCycle(dependencies);
+    const stallCycles = exCycles[i] - idCycle - 1;
+    stalls[i] = stallCycles;
+    precedingStalls += stallCycles;
+
+    const resolved = dependencies.map((dependency) => ({
+      ...dependency,
+      ...sourceAt(dependency, exCycles[i])!,
+      stallCycles: firstExCycle([dependency]) - idCycle - 1,
+    }));
+
+    // Operands not read from the register file were forwarded, once per
+    // producer, register and path even if two operand fields read it
+    resolved.forEach(({ location, producer, source, reader, readCycle }) => {
+      if (source === "register-file") return;
+      const register = formatLocation(location, "numeric");
+      const isDuplicate = forwardings[i].some(
+        (forwarding) =>
+          forwarding.from === producer &&
+          forwarding.register === register &&
+          forwarding.path === source
+      );
+      if (isDuplicate) return;
+      forwardings[i].push({
+        from: producer,
+        to: i,
+        // Pipeline register the value is taken from
+        fromStage:
+          source === "ex-mem-to-ex" || source === "ex-mem-to-id" ? "EX" : "MEM",
+        toStage: reader,
+        register,
+        cycle: readCycle,
+        path: source,
+      });
+    });
+
+    // Report the dependency causing the most stalls, the nearest on ties
+    const [hazard] = [...resolved].sort(
+      (a, b) => b.stallCycles - a.stallCycles || b.producer - a.producer
+    );
+    if (hazard) {
+      const distance = i - hazard.producer;
+      const register = formatLocation(hazard.location, "numeric");
+      const operand =
+        typeof hazard.location === "number"
+          ? `${hazard.field}(${register})`
+          : register;
+      const isForwarded = hazard.source !== "register-file";
+      const forwarding = isForwarded
+        ? `forwarded ${
+            FORWARDING_PATHS.find(({ path }) => path === hazard.source)?.label
+          }`
+        : "";
+      // Without forwarding, the value is read once the register file has it
+      const readBack = splitCycle
+        ? "read from the register file during its WB"
+        : "read from the register file after its WB";
+      const resolution =
+        hazard.stallCycles > 0
+          ? `${hazard.stallCycles} stall${
+              hazard.stallCycles > 1 ? "s" : ""
+            }, then ${isForwarded ? forwarding : readBack}`
+          : isForwarded
+          ? forwarding
+          : "no stall";
+      hazards[i] = {
+        type: "RAW",
+        description: `${
+          hazard.isLoad ? "Load-use hazard" : "RAW hazard"
+        }: ${operand} depends on instruction ${
+          hazard.producer
+        } (distance ${distance}, ${resolution})`,
+        canForward: isForwarded,
+        stallCycles: hazard.stallCycles,
+        producer: hazard.producer,
+        distance,
+      };
+      continue;
+    }
+
+    if (!outOfOrder) continue;
+
+    // Check for WAW hazards (only for instructions that write to the same register)
+    const waw = currentInst.writes
+      .map(({ location }) => ({ location, producer: findProducer(location) }))
+      .find(({ producer }) => producer !== undefined);
+    if (waw?.producer !== undefined) {
+      const { location, producer } = waw;
+      hazards[i] = {
+        type: "WAW",
+        description: `WAW hazard: Both instructions write to ${formatLocation(
+          location,
+          "numeric"
+        )} (instruction ${producer}, distance ${i - producer})`,
+        canForward: true,
+        stallCycles: 0,
+        producer,
+        distance: i - producer,
+      };
+      continue;
+    }
+
+    // Check for WAR hazards: an older instruction in flight reads a register
+    // this one writes, so it must read it first
+    for (let j = i - 1; j >= 0 && exCycles[j] + 2 > idCycle; j--) {
+      if (isFlushed(fetches[j])) continue;
+      const write = currentInst.writes.find(({ location }) =>
+        registerUsage[j].reads.some((read) => read.location === location)
+      );
+      if (write) {
+        hazards[i] = {
+          type: "WAR",
+          description: `WAR hazard: writes ${formatLocation(
+            write.location,
+            "numeric"
+          )} read by instruction ${j} (distance ${i - j})`,
+          canForward: false,
+          stallCycles: 0,
+          producer: j,
+          distance: i - j,
+        };
+        break;
+      }
+    }
+  }
+
+  return [hazards, forwardings, stalls];
+};
+
+// Lists the dependencies of each instruction on older ones: RAW on the
+// nearest writer of each register read, WAW on the nearest writer of each
+// register written, and WAR on the readers of a written register since its
+// previous write. In order, only a RAW dependency on an instruction still in
+// flight can cause a hazard; out of order (without renaming), all can.
+export const analyzeDependencies = (
+  fetches: FetchedInstruction[],
+  registerUsage: Record<number, RegisterUsage>,
+  stalls: Record<number, number>,
+  splitCycle: boolean,
+  outOfOrder: boolean
+): Record<number, Dependency[]> => {
+  const dependencies: Record<number, Dependency[]> = {};
+
+  // Cycle each instruction enters ID and EX
+  const idCycles: number[] = [];
+  const exCycles: number[] = [];
+  let precedingStalls = 0;
+  fetches.forEach((_, index) => {
+    idCycles[index] = index + 2 + precedingStalls;
+    exCycles[index] = idCycles[index] + (stalls[index] || 0) + 1;
+    precedingStalls += stalls[index] || 0;
+  });
+
+  fetches.forEach((fetch, i) => {
+    dependencies[i] = [];
+    if (isFlushed(fetch)) return;
+    const { reads, writes } = registerUsage[i];
+    // Each (type, producer, register) once, even if the register is read
+    // by two operand fields, as in `add $t1, $t0, $t0`
+    const add = (
+      type: DependencyType,
+      from: number,
+      location: OperandLocation
+    ) => {
+      const isDuplicate = dependencies[i].some(
+        (dependency) =>
+          dependency.type === type &&
+          dependency.from === from &&
+          dependency.location === location
+      );
+      if (isDuplicate) return;
+      dependencies[i].push({
+        type,
+        kind: type === "RAW" ? "true" : "name",
+        from,
+        to: i,
+        location,
+        matters:
+          outOfOrder ||
+          (type === "RAW" &&
+            registerFileReadCycle(exCycles[from], splitCycle) > idCycles[i]),
+      });
+    };
+
+    // Nearest older instruction writing `location`
+    const findWriter = (location: OperandLocation) => {
+      for (let j = i - 1; j >= 0; j--) {
+        if (
+          !isFlushed(fetches[j]) &&
+          registerUsage[j].writes.some((write) => write.location === location)
+        ) {
+          return j;
+        }
+      }
+      return undefined;
+    };
+
+    reads.forEach(({ location }) => {
+      const writer = findWriter(location);
+      if (writer !== undefined) add("RAW", writer, location);
+    });
+    writes.forEach(({ location }) => {
+      const writer = findWriter(location);
+      for (let j = i - 1; j > (writer ?? -1); j--) {
+        if (
+          !isFlushed(fetches[j]) &&
+          registerUsage[j].reads.some((read) => read.location === location)
+        ) {
+          add("WAR", j, location);
+        }
+      }
+      if (writer !== undefined) add("WAW", writer, location);
+    });
+  });
+
+  return dependencies;
+};
+
+const calculatePrecedingStalls = (
+  stalls: Record<number, number>,
+  index: number
+): number => {
+  let totalStalls = 0;
+  for (let i = 0; i < index; i++) {
+    totalStalls += stalls[i] || 0;
+  }
+  return totalStalls;
+};
+
+// Stage of the instruction at `index` in `cycle`. Fetch and decode follow
+// the program order, delayed by the stalls of older instructions; the
+// instruction then stays in ID for its own stall cycles.
+export const calculateStageIndex = (
+  stalls: Record<number, number>,
+  index: number,
+  cycle: number
+): number => {
+  const stageIndex =
+    cycle - index - 1 - calculatePrecedingStalls(stalls, index);
+  const ownStalls = stalls[index] || 0;
+  if (stageIndex <= ID_STAGE) return stageIndex;
+  return Math.max(ID_STAGE, stageIndex - ownStalls);
+};
+
+// A load's value is only known once it has been through MEM
+const withoutLoadedValue = (record: ExecutionRecord): ExecutionRecord => {
+  const access = record.memoryAccess;
+  if (access?.type !== "load") return record;
+  return {
+    ...record,
+    memoryAccess: { ...access, value: undefined },
+    write: record.write && { register: record.write.register },
+  };
+};
+
+// Applies the EX, MEM and WB effects of every instruction that reached
+// those stages since the previous cycle. `progress` is the stage each
+// instruction has now reached (5 or more once it has left WB).
+// EX reveals the outcome found by the sequential run; loads get their
+// value in MEM and registers are written in WB.
+const runFunctionalCore = (
+  fetches: FetchedInstruction[],
+  previous: FunctionalState,
+  progress: Record<number, number>
+): FunctionalState => {
+  let machine = previous.machine;
+  const executions = { ...previous.executions };
+  const executedStages = { ...previous.executedStages };
+
+  // Older instructions first, so their results are visible to younger ones
+  fetches.forEach(({ record }, index) => {
+    // Flushed instructions have no effects
+    if (!record) return;
+    const reached = Math.min(progress[index], WB_STAGE);
+    for (
+      let stage = (executedStages[index] ?? -1) + 1;
+      stage <= reached;
+      stage++
+    ) {
+      if (stage === EX_STAGE) {
+        executions[index] = withoutLoadedValue(record);
+      } else if (stage === MEM_STAGE) {
+        const result = accessMemory(executions[index], machine.memory);
+        executions[index] = result.record;
+        machine = { ...machine, memory: result.memory };
+      } else if (stage === WB_STAGE) {
+        machine = writeBack(executions[index], machine);
+      }
+      executedStages[index] = stage;
+    }
+  });
+
+  // The PC points at the instruction being fetched
+  const fetching = fetches.find((_, index) => progress[index] === 0);
+  if (fetching) {
+    machine = { ...machine, pc: fetching.address };
+  }
+
+  return { machine, executions, executedStages };
+};
+
+// Simulates one cycle, from the functional state left by the previous one
+const simulateCycle = (
+  fetches: FetchedInstruction[],
+  stalls: Record<number, number>,
+  forwardings: Record<number, ForwardingInfo[]>,
+  previous: FunctionalState,
+  cycle: number,
+  completionCycle: number
+): CycleTrace => {
+  const cells: TraceCell[] = [];
+  const instructionStages: Record<number, number | null> = {};
+  const progress: Record<number, number> = {};
+  // Stall cycles left for the instruction held in ID, if any
+  let stallCycles = 0;
+
+  fetches.forEach(({ flushedAfter }, index) => {
+    const stageIndex = calculateStageIndex(stalls, index, cycle);
+    progress[index] = stageIndex;
+    const forwards = (forwardings[index] ?? []).filter(
+      (forwarding) => forwarding.cycle === cycle
+    );
+    const isInPipeline = stageIndex >= 0 && stageIndex < STAGE_NAMES.length;
+
+    if (!isInPipeline) {
+      cells[index] = { kind: "empty", stage: null, forwards };
+      instructionStages[index] = null;
+    } else if (flushedAfter !== undefined && stageIndex > flushedAfter) {
+      // Squashed: only a bubble is left in the pipeline
+      cells[index] = { kind: "flush", stage: null, forwards };
+      instructionStages[index] = null;
+    } else {
+      // Cycles spent in ID beyond the first one are stalls
+      const firstIdCycle = index + 2 + calculatePrecedingStalls(stalls, index);
+      const exCycle = firstIdCycle + 1 + (stalls[index] || 0);
+      const isStall =
+        stageIndex === ID_STAGE && cycle > firstIdCycle && cycle < exCycle;
+      if (stageIndex === ID_STAGE && stalls[index] > 0) {
+        stallCycles = Math.min(stalls[index], exCycle - cycle);
+      }
+
+      cells[index] = {
+        kind: isStall ? "stall" : "stage",
+        stage: stageIndex,
+        forwards,
+      };
+      instructionStages[index] = stageIndex;
+    }
+  });
+
+  return {
+    cycle,
+    cells,
+    instructionStages,
+    stallCycles,
+    // Finished once the last instruction is in WB
+    isFinished: cycle >= completionCycle,
+    ...runFunctionalCore(fetches, previous, progress),
+  };
+};
+
+// Simulates every cycle of the run up front: cycle c is trace[c - 1]
+export const buildTrace = (
+  fetches: FetchedInstruction[],
+  stalls: Record<number, number>,
+  forwardings: Record<number, ForwardingInfo[]>,
+  machine: MachineState,
+  completionCycle: number
+): CycleTrace[] => {
+  const trace: CycleTrace[] = [];
+  let previous: FunctionalState = {
+    machine,
+    executions: {},
+    executedStages: {},
+  };
+  for (let cycle = 1; cycle <= completionCycle; cycle++) {
+    const cycleTrace = simulateCycle(
+      fetches,
+      stalls,
+      forwardings,
+      previous,
+      cycle,
+      completionCycle
+    );
+    trace.push(cycleTrace);
+    previous = cycleTrace;
+  }
+  return trace;
+};
+
+// Everything known about a program before it is played cycle by cycle
+export interface ProgramAnalysis {
+  instructions: string[]; // Instruction words in fetch order (one per row)
+  fetches: FetchedInstruction[];
+  isTruncated: boolean; // Execution hit MAX_EXECUTED_INSTRUCTIONS
+  registerUsage: Record<number, RegisterUsage>;
+  hazards: Record<number, HazardInfo>;
+  forwardings: Record<number, ForwardingInfo[]>;
+  stalls: Record<number, number>;
+  dependencies: Record<number, Dependency[]>;
+  totalStalls: number;
+  totalCycles: number; // Cycle in which the last instruction is in WB
+}
+
+/**
+ * Runs the program from `machine` to find the executed path, then lays it
+ * out in the pipeline described by `config`: wrong-path fetches, hazards,
+ * stalls, forwarding and dependencies of every row.
+ */
+export const analyzeProgram = (
+  program: string[],
+  machine: MachineState,
+  config: PipelineConfig = DEFAULT_PIPELINE_CONFIG
+): ProgramAnalysis => {
+  // Lay out the executed path, including wrong-path fetches
+  const { instructions, fetches, isTruncated } = buildInstructionStream(
+    program,
+    machine,
+    config.branchResolutionStage,
+    config.branchPredictor,
+    config.delaySlotEnabled
+  );
+
+  const registerUsage: Record<number, RegisterUsage> = {};
+  instructions.forEach((inst, index) => {
+    registerUsage[index] = decodeInstruction(inst);
+  });
+
+  // Detect hazards and determine forwarding/stalls
+  const [hazards, forwardings, stalls] = detectHazards(
+    instructions,
+    fetches,
+    registerUsage,
+    config.forwardingEnabled ? config.forwardingPaths : [],
+    config.splitCycleRegisterFile,
+    config.stallsEnabled,
+    config.branchResolutionStage,
+    config.outOfOrderEnabled
+  );
+
+  // Classify every dependency for the selected pipeline model
+  const dependencies = analyzeDependencies(
+    fetches,
+    registerUsage,
+    stalls,
+    config.splitCycleRegisterFile,
+    config.outOfOrderEnabled
+  );
+
+  const totalStalls = Object.values(stalls).reduce(
+    (total, stall) => total + stall,
+    0
+  );
+
+  return {
+    instructions,
+    fetches,
+    isTruncated,
+    registerUsage,
+    hazards,
+    forwardings,
+    stalls,
+    dependencies,
+    totalStalls,
+    totalCycles:
+      instructions.length > 0
+        ? instructions.length + STAGE_NAMES.length - 1 + totalStalls
+        : 0,
+  };
+};
+
+export interface PipelineSimulation extends ProgramAnalysis {
+  trace: CycleTrace[]; // Cycle c is trace[c - 1]
+}
+
+/** Analyzes a program and simulates every cycle of its run. */
+export const simulatePipeline = (
+  program: string[],
+  machine: MachineState,
+  config: PipelineConfig = DEFAULT_PIPELINE_CONFIG
+): PipelineSimulation => {
+  const analysis = analyzeProgram(program, machine, config);
+  return {
+    ...analysis,
+    trace: buildTrace(
+      analysis.fetches,
+      analysis.stalls,
+      analysis.forwardings,
+      machine,
+      analysis.totalCycles
+    ),
+  };
+};
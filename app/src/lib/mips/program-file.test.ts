@@ -0,0 +1,56 @@
+// src/lib/mips/program-file.test.ts
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { detectProgramFormat, readProgramFile } from "./program-file";
+
+describe("detectProgramFormat", () => {
+  it("detects raw and 0x-prefixed hex words", () => {
+    assert.equal(detectProgramFormat("00a63820\n8c080000\n"), "hex");
+    assert.equal(detectProgramFormat("0x00A63820\r\n0X8c080000"), "hex");
+  });
+
+  it("ignores comments and blank lines", () => {
+    assert.equal(
+      detectProgramFormat("# program\n\n00a63820 // add\n8c080000"),
+      "hex"
+    );
+  });
+
+  it("detects assembly", () => {
+    assert.equal(
+      detectProgramFormat("main: addi $t0, $zero, 1\n  add $t1, $t0, $t0"),
+      "assembly"
+    );
+  });
+});
+
+describe("readProgramFile", () => {
+  it("normalizes hex words and reports unsupported lines", () => {
+    const file = readProgramFile(
+      "program.hex",
+      "0x00a63820\nadd $t0, $t0, $t0\n\n8c080000 # lw\n1234"
+    );
+    assert.equal(file.format, "hex");
+    assert.equal(file.text, "00a63820\n8c080000");
+    assert.deepEqual(
+      file.problems.map(({ line }) => line),
+      [2, 5]
+    );
+  });
+
+  it("uses the extension before the content", () => {
+    assert.equal(readProgramFile("words.s", "00a63820").format, "assembly");
+    assert.equal(readProgramFile("words.txt", "00a63820").format, "hex");
+  });
+
+  it("reports assembly errors by line", () => {
+    const file = readProgramFile("loop.asm", "addi $t0, $t0, 1\r\nfoo $t0\n");
+    assert.equal(file.format, "assembly");
+    assert.equal(file.text, "addi $t0, $t0, 1\nfoo $t0\n");
+    assert.deepEqual(
+      file.problems.map(({ line }) => line),
+      [2]
+    );
+  });
+});
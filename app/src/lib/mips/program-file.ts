@@ -0,0 +1,83 @@
+// src/lib/mips/program-file.ts
+//
+// Reads program files (.asm, .s, .hex, .txt) into the text the input box
+// expects: assembly as it is, or hex words one per line.
+
+import { assemble, type AssemblyError } from "./assembler";
+
+export type ProgramFormat = "hex" | "assembly";
+
+export const PROGRAM_FILE_EXTENSIONS = [".asm", ".s", ".hex", ".txt"];
+
+export interface ProgramFile {
+  format: ProgramFormat;
+  text: string; // Ready for the input box
+  problems: AssemblyError[]; // Unsupported content, by 1-based line
+}
+
+// An 8-digit hex instruction word, with or without a 0x prefix
+const HEX_WORD_REGEX = /^(?:0[xX])?([0-9a-fA-F]{8})$/;
+
+// Hex files may have `#` or `//` comments
+const stripHexComment = (line: string) =>
+  line.replace(/(#|\/\/).*$/, "").trim();
+
+const extensionOf = (fileName: string) => {
+  const dot = fileName.lastIndexOf(".");
+  return dot >= 0 ? fileName.slice(dot).toLowerCase() : "";
+};
+
+/**
+ * Guesses the format of a program from its content: hex if most of the
+ * lines that are not blank or comments are instruction words, assembly
+ * otherwise.
+ */
+export const detectProgramFormat = (text: string): ProgramFormat => {
+  const lines = text
+    .split(/\r?\n/)
+    .map(stripHexComment)
+    .filter((line) => line.length > 0);
+  const words = lines.filter((line) => HEX_WORD_REGEX.test(line)).length;
+  return lines.length > 0 && words * 2 >= lines.length ? "hex" : "assembly";
+};
+
+/**
+ * Reads a program file. The extension decides the format for .asm, .s and
+ * .hex files; .txt (or anything else) is detected from the content. Every
+ * line that cannot be loaded is reported: hex lines that are not an
+ * instruction word, and assembly lines the assembler rejects.
+ */
+export const readProgramFile = (
+  fileName: string,
+  content: string
+): ProgramFile => {
+  const extension = extensionOf(fileName);
+  const format: ProgramFormat =
+    extension === ".asm" || extension === ".s"
+      ? "assembly"
+      : extension === ".hex"
+      ? "hex"
+      : detectProgramFormat(content);
+
+  if (format === "assembly") {
+    const text = content.replace(/\r\n/g, "\n");
+    return { format, text, problems: assemble(text).errors };
+  }
+
+  const words: string[] = [];
+  const problems: AssemblyError[] = [];
+  content.split(/\r?\n/).forEach((rawLine, index) => {
+    const line = stripHexComment(rawLine);
+    if (line.length === 0) return;
+    const match = HEX_WORD_REGEX.exec(line);
+    if (match) {
+      words.push(match[1]);
+    } else {
+      problems.push({
+        line: index + 1,
+        message: `Unsupported content '${line}': expected an 8-digit hex instruction word`,
+      });
+    }
+  });
+  return { format, text: words.join("\n"), problems };
+};
@@ -0,0 +1,164 @@
+// src/lib/mips/reference-pipeline.ts
+//
+// Reference model of the 5-stage pipeline for differential testing. It is
+// written independently of pipeline.ts: instead of computing stalls from
+// cycle formulas, it moves instructions through the IF/ID/EX/MEM/WB
+// latches one cycle at a time and asks a hazard detection unit each cycle
+// whether the instruction in ID may enter EX. It covers straight-line code
+// (ALU operations, loads and stores) only.
+
+import type { ForwardingPath } from "./forwarding";
+
+// One instruction, as the hazard detection unit sees it
+export interface ReferenceInstruction {
+  destination: number | null; // Register written in WB
+  sources: number[]; // Registers needed in EX
+  storeData?: number; // Register a store writes to memory, needed in MEM
+  isLoad: boolean;
+}
+
+export interface ReferenceConfig {
+  stallsEnabled: boolean;
+  forwardingPaths: ForwardingPath[]; // Empty without forwarding
+  splitCycleRegisterFile: boolean;
+}
+
+// What each instruction does in each cycle: a stage name, "*" for a stall
+// in ID or "." when it is not in the pipeline
+export type ReferenceCell = "IF" | "ID" | "EX" | "MEM" | "WB" | "*" | ".";
+
+export interface ReferenceRun {
+  diagram: ReferenceCell[][]; // [instruction][cycle - 1]
+  totalCycles: number; // Cycle in which the last instruction is in WB
+}
+
+type Latches = {
+  IF: number | null;
+  ID: number | null;
+  EX: number | null;
+  MEM: number | null;
+  WB: number | null;
+};
+
+/** Runs `program` through the pipeline latches until it has drained. */
+export const runReferencePipeline = (
+  program: ReferenceInstruction[],
+  config: ReferenceConfig
+): ReferenceRun => {
+  const diagram: ReferenceCell[][] = program.map(() => []);
+  const exCycle: number[] = [];
+  const paths = new Set(config.forwardingPaths);
+
+  // Stage of an instruction that has entered EX, in a given cycle
+  const stageAfterEx = (index: number, cycle: number) =>
+    (["EX", "MEM", "WB"] as const)[cycle - exCycle[index]] ?? "done";
+
+  // Youngest older instruction writing `register`
+  const producerOf = (index: number, register: number) => {
+    if (register === 0) return undefined;
+    for (let older = index - 1; older >= 0; older--) {
+      if (program[older].destination === register) return older;
+    }
+    return undefined;
+  };
+
+  // Whether the register file holds the producer's result when the
+  // consumer reads it in ID in `idCycle`
+  const inRegisterFile = (producer: number, idCycle: number) => {
+    const wbCycle = exCycle[producer] + 2;
+    return config.splitCycleRegisterFile
+      ? wbCycle <= idCycle
+      : wbCycle < idCycle;
+  };
+
+  // Whether an EX stage in `cycle` can get the producer's result
+  const readyForEx = (producer: number | undefined, cycle: number) => {
+    if (producer === undefined) return true;
+    const stage = stageAfterEx(producer, cycle);
+    if (
+      stage === "MEM" &&
+      !program[producer].isLoad &&
+      paths.has("ex-mem-to-ex")
+    ) {
+      return true;
+    }
+    if (stage === "WB" && paths.has("mem-wb-to-ex")) return true;
+    return inRegisterFile(producer, cycle - 1);
+  };
+
+  // Hazard detection unit: may the instruction in ID enter EX next cycle?
+  const canIssue = (index: number, cycle: number) => {
+    if (!config.stallsEnabled) return true;
+    const { sources, storeData } = program[index];
+    const exReady = sources.every((register) =>
+      readyForEx(producerOf(index, register), cycle + 1)
+    );
+    if (storeData === undefined) return exReady;
+
+    const dataProducer = producerOf(index, storeData);
+    const dataReady =
+      readyForEx(dataProducer, cycle + 1) ||
+      (dataProducer !== undefined &&
+        stageAfterEx(dataProducer, cycle + 2) === "WB" &&
+        paths.has("mem-to-mem"));
+    return exReady && dataReady;
+  };
+
+  let latches: Latches = { IF: 0, ID: null, EX: null, MEM: null, WB: null };
+  let nextFetch = 1;
+  let cycle = 1;
+  let lastWb = 0;
+  // Instruction in IF that will be fetched again because ID is stalled
+  const refetched = new Set<string>();
+
+  while (Object.values(latches).some((slot) => slot !== null)) {
+    // Record this cycle
+    program.forEach((_, index) => diagram[index].push("."));
+    (Object.keys(latches) as (keyof Latches)[]).forEach((stage) => {
+      const index = latches[stage];
+      if (index === null) return;
+      diagram[index][cycle - 1] = stage;
+      if (stage === "EX") exCycle[index] ??= cycle;
+      if (stage === "WB") lastWb = cycle;
+    });
+
+    // Advance the latches for the next cycle
+    const stalled = latches.ID !== null && !canIssue(latches.ID, cycle);
+    if (stalled) {
+      // ID holds its instruction and IF fetches the same one again
+      if (latches.IF !== null) refetched.add(`${latches.IF}:${cycle}`);
+      latches = {
+        IF: latches.IF,
+        ID: latches.ID,
+        EX: null, // Bubble
+        MEM: latches.EX,
+        WB: latches.MEM,
+      };
+    } else {
+      latches = {
+        IF: nextFetch < program.length ? nextFetch : null,
+        ID: latches.IF,
+        EX: latches.ID,
+        MEM: latches.EX,
+        WB: latches.MEM,
+      };
+      if (latches.IF !== null) nextFetch++;
+    }
+    cycle++;
+  }
+
+  // Mark the cycles an instruction waited in ID, and show an instruction
+  // in IF only in the cycle it was fetched for the last time
+  program.forEach((_, index) => {
+    const row = diagram[index];
+    const firstId = row.indexOf("ID");
+    row.forEach((cell, offset) => {
+      if (cell === "ID" && offset > firstId) row[offset] = "*";
+      if (cell === "IF" && refetched.has(`${index}:${offset + 1}`)) {
+        row[offset] = ".";
+      }
+    });
+  });
+
+  return { diagram, totalCycles: lastWb };
+};
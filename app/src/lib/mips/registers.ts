@@ -0,0 +1,72 @@
+// src/lib/mips/registers.ts
+
+// ABI names for the 32 general purpose registers, indexed by register number
+export const REGISTER_NAMES = [
+  "zero",
+  "at",
+  "v0",
+  "v1",
+  "a0",
+  "a1",
+  "a2",
+  "a3",
+  "t0",
+  "t1",
+  "t2",
+  "t3",
+  "t4",
+  "t5",
+  "t6",
+  "t7",
+  "s0",
+  "s1",
+  "s2",
+  "s3",
+  "s4",
+  "s5",
+  "s6",
+  "s7",
+  "t8",
+  "t9",
+  "k0",
+  "k1",
+  "gp",
+  "sp",
+  "fp",
+  "ra",
+] as const;
+
+export type RegisterName = (typeof REGISTER_NAMES)[number];
+
+const REGISTER_ALIASES: Record<string, number> = {
+  s8: 30, // $s8 is the old name of $fp
+};
+
+/**
+ * Parses a register operand such as `$t0`, `$8` or `$zero`.
+ * Returns the register number, or null if the text is not a register.
+ */
+export const parseRegister = (text: string): number | null => {
+  const match = /^\$([a-z0-9]+)$/i.exec(text.trim());
+  if (!match) return null;
+
+  const name = match[1].toLowerCase();
+  if (/^\d+$/.test(name)) {
+    const number = parseInt(name, 10);
+    return number >= 0 && number < 32 ? number : null;
+  }
+
+  const index = REGISTER_NAMES.indexOf(name as RegisterName);
+  if (index !== -1) return index;
+
+  return REGISTER_ALIASES[name] ?? null;
+};
+
+export type RegisterNameStyle = "abi" | "numeric";
+
+// Formats a register number as `$t0` (ABI) or `$8` (numeric)
+export const formatRegister = (
+  register: number,
+  style: RegisterNameStyle = "abi"
+): string =>
+  style === "abi" ? `$${REGISTER_NAMES[register]}` : `$${register}`;